@@ -1,37 +1,225 @@
-import React, { useState } from 'react';
-import { AppState, AppMode, Language } from './types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { AppState, AppMode, Language, ReaderProfile, LibraryDocument, DocumentPage, ExtractionDraft, ReadingLevel, DocumentPassage } from './types';
 import { Layout } from './components/Layout';
 import { UploadModule } from './components/UploadModule';
 import { AdaptiveReader } from './components/AdaptiveReader';
 import { ExplainMode } from './components/ExplainMode';
 import { ComicMode } from './components/ComicMode';
 import { VideoNarrado } from './components/VideoNarrado';
+import { LibraryModule } from './components/LibraryModule';
+import { ReviewModule } from './components/ReviewModule';
+import { SimplifyMode } from './components/SimplifyMode';
+import { QuizMode } from './components/QuizMode';
+import { ActivityDashboard } from './components/ActivityDashboard';
+import { ContentBlockedNotice, ModerationReview } from './components/ContentSafety';
 import { MODULE_CARDS } from './constants';
 import { TRANSLATIONS } from './translations';
-import { Sparkles, ArrowRight } from 'lucide-react';
+import { loadProfiles, saveProfiles, loadActiveProfileId, saveActiveProfileId, createProfile } from './services/profileStore';
+import { createDocument } from './services/libraryStore';
+import { speechOptionsFor, moderateText } from './services/geminiService';
+import { DEFAULT_AGE_BAND, setAgeBand, setShowingFullText, redactText } from './services/moderation';
+import { setActivityContext, logActivity } from './services/activityLog';
+import { Sparkles, ArrowRight, Wand2, X, Loader2, ShieldAlert } from 'lucide-react';
+
+// Modes that work on the open document; time spent in them counts as reading
+const DOCUMENT_MODES: AppMode[] = ['READER', 'EXPLAIN', 'COMIC', 'VIDEO', 'SIMPLIFY', 'QUIZ'];
+
+// Shorter visits are usually a mis-tap
+const MIN_VISIT_SECONDS = 5;
 
 const App: React.FC = () => {
-  const [state, setState] = useState<AppState>({
-    text: '',
-    isProcessing: false,
-    mode: 'UPLOAD',
-    language: 'es'
+  const [profiles, setProfiles] = useState<ReaderProfile[]>(loadProfiles);
+  const [state, setState] = useState<AppState>(() => {
+    const savedProfile = profiles.find(p => p.id === loadActiveProfileId());
+    return {
+      text: '',
+      isProcessing: false,
+      mode: 'UPLOAD',
+      language: savedProfile?.language || 'es',
+      profileId: savedProfile?.id
+    };
   });
 
   const t = TRANSLATIONS[state.language];
+  const activeProfile = profiles.find(p => p.id === state.profileId);
+  const speechOptions = speechOptionsFor(activeProfile?.settings, state.language);
+  const ageBand = activeProfile?.ageBand || DEFAULT_AGE_BAND;
+  const [moderationAttempt, setModerationAttempt] = useState(0);
+
+  const moderation = state.moderationOverridden ? undefined : state.moderation;
+  // A verdict for another age band is as good as none
+  const isModerating = !!state.text && !state.moderationFailed && state.moderation?.ageBand !== ageBand;
+  const isBlocked = moderation?.action === 'block';
+  // Flagged passages are masked for the modes until an adult shows them
+  const safeText = useMemo(
+    () => moderation?.action === 'redact' ? redactText(state.text, moderation.flags) : state.text,
+    [state.text, moderation]
+  );
+  // Modes read the simplified rewrite when the child picked one
+  const modeText = state.simplifiedText || safeText;
+
+  useEffect(() => { saveProfiles(profiles); }, [profiles]);
+  useEffect(() => { saveActiveProfileId(state.profileId); }, [state.profileId]);
+
+  // A cited passage is only highlighted on the visit that opened it
+  useEffect(() => {
+    if (state.mode !== 'READER' && state.readerFocus) setState(prev => ({ ...prev, readerFocus: undefined }));
+  }, [state.mode]);
+
+  // Declared before the effects that call the services, so they see the current
+  // audience. Modes only mount once the check below has a verdict for it.
+  useEffect(() => { setAgeBand(ageBand); }, [ageBand]);
+  useEffect(() => { setShowingFullText(!!state.moderationOverridden); }, [state.moderationOverridden]);
+
+  // Every document is checked for the reader's age band before any mode opens
+  // it. The language only tunes the check, so switching it doesn't redo it.
+  useEffect(() => {
+    if (!state.text) return;
+    let cancelled = false;
+    setState(prev => ({ ...prev, moderation: undefined, moderationOverridden: false, moderationFailed: false }));
+    moderateText(state.text, state.language)
+      .then(verdict => { if (!cancelled) setState(prev => ({ ...prev, moderation: verdict })); })
+      .catch(err => {
+        console.error("No se pudo revisar el contenido:", err);
+        if (!cancelled) setState(prev => ({ ...prev, moderationFailed: true }));
+      });
+    return () => { cancelled = true; };
+  }, [state.text, ageBand, moderationAttempt]);
+
+  useEffect(() => {
+    setActivityContext({ profileId: state.profileId, documentId: state.documentId, documentTitle: state.originalFileName });
+  }, [state.profileId, state.documentId, state.originalFileName]);
+
+  // Each visit to a document mode is logged when it starts and timed when it ends
+  const modeVisitRef = useRef<{ mode: AppMode; since: number } | null>(null);
+  useEffect(() => {
+    const endVisit = () => {
+      const visit = modeVisitRef.current;
+      if (!visit) return;
+      modeVisitRef.current = null;
+      const seconds = Math.round((Date.now() - visit.since) / 1000);
+      if (seconds >= MIN_VISIT_SECONDS) logActivity({ kind: 'reading_time', mode: visit.mode, seconds });
+    };
+    if (DOCUMENT_MODES.includes(state.mode)) {
+      logActivity({ kind: 'mode_opened', mode: state.mode });
+      modeVisitRef.current = { mode: state.mode, since: Date.now() };
+    }
+    window.addEventListener('pagehide', endVisit);
+    return () => {
+      window.removeEventListener('pagehide', endVisit);
+      endVisit();
+    };
+  }, [state.mode, state.documentId, state.profileId]);
+
+  const updateProfile = (id: string, changes: Partial<ReaderProfile>) => {
+    setProfiles(prev => prev.map(p => p.id === id ? { ...p, ...changes } : p));
+  };
+
+  const selectProfile = (id?: string) => {
+    const profile = profiles.find(p => p.id === id);
+    setState(prev => ({ ...prev, profileId: profile?.id, language: profile?.language || prev.language }));
+  };
+
+  const addProfile = (name: string) => {
+    const profile = createProfile(name, state.language);
+    setProfiles(prev => [...prev, profile]);
+    setState(prev => ({ ...prev, profileId: profile.id }));
+  };
+
+  const removeProfile = (id: string) => {
+    setProfiles(prev => prev.filter(p => p.id !== id));
+    if (state.profileId === id) setState(prev => ({ ...prev, profileId: undefined }));
+  };
+
+  const handleTextExtracted = async (text: string, fileName: string, pages?: DocumentPage[]) => {
+    let documentId: string | undefined;
+    try {
+      documentId = (await createDocument(text, fileName, pages)).id;
+    } catch (err) { console.error("No se pudo guardar en la biblioteca:", err); }
+    setState(prev => ({ ...prev, text, pages, originalFileName: fileName, documentId, reviewDraft: undefined, readingLevel: undefined, simplifiedText: undefined, mode: 'SELECTION' }));
+  };
+
+  const handleReviewRequested = (draft: ExtractionDraft) => {
+    setState(prev => ({ ...prev, reviewDraft: draft, mode: 'REVIEW' }));
+  };
+
+  const handleOpenDocument = (doc: LibraryDocument) => {
+    setState(prev => ({ ...prev, text: doc.text, pages: doc.pages, originalFileName: doc.originalFileName, documentId: doc.id, readingLevel: undefined, simplifiedText: undefined, mode: 'SELECTION' }));
+  };
+
+  const resetDocument = () => {
+    setState(prev => ({ ...prev, mode: 'UPLOAD', text: '', pages: undefined, originalFileName: undefined, documentId: undefined, reviewDraft: undefined, readingLevel: undefined, simplifiedText: undefined, moderation: undefined, moderationOverridden: false, moderationFailed: false }));
+  };
 
-  const handleTextExtracted = (text: string, fileName: string) => {
-    setState({ ...state, text, originalFileName: fileName, mode: 'SELECTION' });
+  const handleUseSimplified = (level: ReadingLevel, simplifiedText: string, mode: AppMode) => {
+    setState(prev => ({ ...prev, readingLevel: level, simplifiedText, mode }));
+  };
+
+  // Citations point into `modeText`, which is also what the reader shows
+  const openPassage = (passage: DocumentPassage) => {
+    setState(prev => ({ ...prev, mode: 'READER', readerFocus: passage }));
+  };
+
+  const useOriginalText = () => {
+    setState(prev => ({ ...prev, readingLevel: undefined, simplifiedText: undefined }));
   };
 
   const setLanguage = (lang: Language) => {
-    setState(prev => ({ ...prev, language: lang }));
+    // A simplified rewrite belongs to the language it was written in
+    setState(prev => ({ ...prev, language: lang, readingLevel: undefined, simplifiedText: undefined }));
+    if (activeProfile) updateProfile(activeProfile.id, { language: lang });
+  };
+
+  const showAllContent = () => {
+    setState(prev => ({ ...prev, moderationOverridden: true, readingLevel: undefined, simplifiedText: undefined }));
   };
 
   const renderContent = () => {
+    if (state.mode === 'SELECTION' || DOCUMENT_MODES.includes(state.mode)) {
+      if (isModerating) {
+        return (
+          <div className="flex flex-col items-center justify-center py-24 gap-4 text-slate-400">
+            <Loader2 className="w-12 h-12 animate-spin text-blue-400" />
+            <p className="text-lg font-bold">{t.checkingContent}</p>
+          </div>
+        );
+      }
+      if (state.moderationFailed) {
+        return (
+          <ContentBlockedNotice language={state.language} title={t.checkFailedTitle} text={t.checkFailedText}>
+            <div className="flex flex-col items-center gap-3 mt-8">
+              <button onClick={() => setModerationAttempt(n => n + 1)} className="px-8 py-4 bg-blue-600 text-white rounded-full font-black text-lg shadow-lg active:scale-95 transition-all">
+                {t.checkAgain}
+              </button>
+              <button onClick={resetDocument} className="px-6 py-3 text-slate-500 hover:text-slate-700 rounded-full font-bold transition-all">
+                {t.loadAnother}
+              </button>
+            </div>
+          </ContentBlockedNotice>
+        );
+      }
+      if (isBlocked && moderation) {
+        return (
+          <ContentBlockedNotice language={state.language}>
+            <div className="flex flex-col items-center">
+              <button onClick={resetDocument} className="mt-8 px-8 py-4 bg-blue-600 text-white rounded-full font-black text-lg shadow-lg active:scale-95 transition-all">
+                {t.loadAnother}
+              </button>
+              <ModerationReview verdict={moderation} language={state.language} onShowAll={showAllContent} />
+            </div>
+          </ContentBlockedNotice>
+        );
+      }
+    }
+
     switch (state.mode) {
       case 'UPLOAD': 
-        return <UploadModule onTextExtracted={handleTextExtracted} language={state.language} />;
+        return <UploadModule onTextExtracted={handleTextExtracted} onReviewRequested={handleReviewRequested} language={state.language} />;
+
+      case 'REVIEW':
+        return state.reviewDraft
+          ? <ReviewModule draft={state.reviewDraft} language={state.language} onConfirm={handleTextExtracted} />
+          : <UploadModule onTextExtracted={handleTextExtracted} onReviewRequested={handleReviewRequested} language={state.language} />;
       
       case 'SELECTION':
         return (
@@ -43,6 +231,21 @@ const App: React.FC = () => {
               </div>
               <h2 className="text-5xl font-black text-slate-800 tracking-tight mb-3">{t.howToRead}</h2>
               <p className="text-slate-500 text-lg max-w-xl mx-auto">{t.selectionSubtitle}</p>
+              {moderation?.action === 'redact' && (
+                <div className="max-w-xl mx-auto mt-6 p-4 rounded-3xl bg-amber-50 border border-amber-100 text-amber-800">
+                  <p className="flex items-center justify-center gap-2 font-bold text-sm"><ShieldAlert className="w-4 h-4 shrink-0" /> {t.contentRedacted}</p>
+                  <ModerationReview verdict={moderation} language={state.language} onShowAll={showAllContent} />
+                </div>
+              )}
+              {state.readingLevel && (
+                <div className="inline-flex items-center gap-3 mt-6 pl-4 pr-2 py-1.5 rounded-full bg-emerald-50 border border-emerald-100 text-emerald-700 font-bold text-sm">
+                  <Wand2 className="w-4 h-4" />
+                  <span>{t.simplifiedActive.replace('{level}', t.readingLevels[state.readingLevel])}</span>
+                  <button onClick={useOriginalText} className="flex items-center gap-1 px-3 py-1 rounded-full bg-white text-emerald-600 hover:text-emerald-800 text-xs transition-all">
+                    <X className="w-3 h-3" /> {t.backToOriginal}
+                  </button>
+                </div>
+              )}
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
@@ -79,7 +282,7 @@ const App: React.FC = () => {
             
             <div className="mt-12 text-center">
               <button 
-                onClick={() => setState({ ...state, mode: 'UPLOAD', text: '' })}
+                onClick={resetDocument}
                 className="px-8 py-3 border border-slate-200 text-slate-400 font-bold rounded-full hover:border-blue-400 hover:text-blue-500 transition-all uppercase text-[10px] tracking-[0.2em]"
               >
                 {t.loadAnother}
@@ -88,11 +291,46 @@ const App: React.FC = () => {
           </div>
         );
 
-      case 'READER': return <AdaptiveReader text={state.text} language={state.language} />;
-      case 'EXPLAIN': return <ExplainMode text={state.text} language={state.language} />;
-      case 'COMIC': return <ComicMode text={state.text} language={state.language} />;
-      case 'VIDEO': return <VideoNarrado text={state.text} language={state.language} />;
-      default: return <UploadModule onTextExtracted={handleTextExtracted} language={state.language} />;
+      case 'DASHBOARD': return <ActivityDashboard language={state.language} profiles={profiles} onProfileChange={updateProfile} />;
+
+      case 'LIBRARY': return <LibraryModule language={state.language} onOpen={handleOpenDocument} />;
+
+      case 'READER': return (
+        <AdaptiveReader
+          key={activeProfile?.id || 'guest'}
+          text={modeText}
+          pages={state.simplifiedText ? undefined : state.pages}
+          language={state.language}
+          documentId={state.documentId}
+          profile={activeProfile}
+          onProfileChange={(changes) => activeProfile && updateProfile(activeProfile.id, changes)}
+          focus={state.readerFocus}
+          onBackToTutor={state.readerFocus ? () => setState(prev => ({ ...prev, mode: 'EXPLAIN' })) : undefined}
+        />
+      );
+      case 'EXPLAIN': return <ExplainMode text={modeText} language={state.language} documentId={state.documentId} readingLevel={state.readingLevel} speechOptions={speechOptions} onOpenPassage={openPassage} />;
+      case 'COMIC': return <ComicMode text={modeText} language={state.language} documentId={state.documentId} documentTitle={state.originalFileName} readingLevel={state.readingLevel} speechOptions={speechOptions} fontFamily={activeProfile?.settings?.fontFamily} fontSize={activeProfile?.settings?.fontSize} />;
+      case 'VIDEO': return <VideoNarrado text={modeText} language={state.language} speechOptions={speechOptions} />;
+      case 'QUIZ': return (
+        <QuizMode
+          text={modeText}
+          language={state.language}
+          documentId={state.documentId}
+          readingLevel={state.readingLevel}
+          profileId={state.profileId}
+          speechOptions={speechOptions}
+        />
+      );
+      case 'SIMPLIFY': return (
+        <SimplifyMode
+          text={safeText}
+          language={state.language}
+          documentId={state.documentId}
+          initialLevel={state.readingLevel}
+          onUseSimplified={handleUseSimplified}
+        />
+      );
+      default: return <UploadModule onTextExtracted={handleTextExtracted} onReviewRequested={handleReviewRequested} language={state.language} />;
     }
   };
 
@@ -101,8 +339,15 @@ const App: React.FC = () => {
       mode={state.mode} 
       language={state.language}
       onLanguageChange={setLanguage}
-      onNavigateHome={() => setState({ ...state, mode: 'UPLOAD', text: '' })}
-      onBack={() => setState(prev => ({ ...prev, mode: state.mode === 'SELECTION' ? 'UPLOAD' : 'SELECTION' }))}
+      onNavigateHome={resetDocument}
+      onBack={() => setState(prev => ({ ...prev, mode: prev.mode === 'SELECTION' || !prev.text ? 'UPLOAD' : 'SELECTION' }))}
+      onOpenLibrary={() => setState(prev => ({ ...prev, mode: 'LIBRARY' }))}
+      onOpenDashboard={() => setState(prev => ({ ...prev, mode: 'DASHBOARD' }))}
+      profiles={profiles}
+      activeProfileId={state.profileId}
+      onProfileSelect={selectProfile}
+      onProfileCreate={addProfile}
+      onProfileDelete={removeProfile}
     >
       {renderContent()}
     </Layout>
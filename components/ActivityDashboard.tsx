@@ -0,0 +1,218 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { BarChart3, Download, Clock, BookCheck, Trophy, BookMarked, MessageCircle, ShieldCheck } from 'lucide-react';
+import { ActivityEvent, AppMode, Language, ReaderProfile } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { listActivity, activityToCsv } from '../services/activityLog';
+import { listDocuments } from '../services/libraryStore';
+import { downloadBlob } from '../services/download';
+import { AGE_BANDS, DEFAULT_AGE_BAND } from '../services/moderation';
+import { AdultGate } from './AdultGate';
+
+interface ActivityDashboardProps {
+  language: Language;
+  profiles: ReaderProfile[];
+  onProfileChange: (id: string, changes: Partial<ReaderProfile>) => void;
+}
+
+const RANGES = [7, 30];
+
+const startOfDay = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  return date.getTime();
+};
+
+// By calendar date, since days around a clock change are not 24 hours long
+const addDays = (time: number, days: number) => {
+  const date = new Date(time);
+  date.setDate(date.getDate() + days);
+  return startOfDay(date.getTime());
+};
+
+export const ActivityDashboard: React.FC<ActivityDashboardProps> = ({ language, profiles, onProfileChange }) => {
+  const [unlocked, setUnlocked] = useState(false);
+  const [events, setEvents] = useState<ActivityEvent[]>([]);
+  const [titles, setTitles] = useState<Record<string, string>>({});
+  const [profileFilter, setProfileFilter] = useState<string>('all');
+  const [rangeDays, setRangeDays] = useState(RANGES[0]);
+
+  const t = TRANSLATIONS[language];
+  const profileNames = useMemo(() => Object.fromEntries(profiles.map(p => [p.id, p.name])), [profiles]);
+
+  useEffect(() => {
+    if (!unlocked) return;
+    listActivity().then(setEvents).catch(err => console.error("No se pudo leer la actividad:", err));
+    listDocuments()
+      .then(docs => setTitles(Object.fromEntries(docs.map(d => [d.id, d.title]))))
+      .catch(err => console.error("No se pudo leer la biblioteca:", err));
+  }, [unlocked]);
+
+  const since = addDays(Date.now(), 1 - rangeDays);
+  const filtered = useMemo(
+    () => events.filter(e => e.at >= since && (profileFilter === 'all' || e.profileId === profileFilter)),
+    [events, since, profileFilter]
+  );
+
+  const titleOf = (e: ActivityEvent) => (e.documentId && titles[e.documentId]) || e.documentTitle || '—';
+
+  const readingSeconds = filtered.filter(e => e.kind === 'reading_time').reduce((acc, e) => acc + (e.seconds || 0), 0);
+  const completedDocs = new Set(filtered.filter(e => e.kind === 'document_completed').map(e => e.documentId || e.documentTitle)).size;
+  const quizzes = filtered.filter(e => e.kind === 'quiz_finished' && e.total);
+  const quizAverage = quizzes.length
+    ? Math.round(quizzes.reduce((acc, e) => acc + (e.score || 0) / e.total!, 0) / quizzes.length * 100)
+    : null;
+  const words = filtered.filter(e => e.kind === 'word_looked_up' && e.word);
+  const uniqueWords = Array.from(new Set(words.slice().reverse().map(e => e.word!.toLocaleLowerCase())));
+  const questions = filtered.filter(e => e.kind === 'question_asked' && e.question).slice(-10).reverse();
+
+  const minutesPerDay = Array.from({ length: rangeDays }, (_, i) => {
+    const dayStart = addDays(since, i);
+    const dayEnd = addDays(since, i + 1);
+    const seconds = filtered
+      .filter(e => e.kind === 'reading_time' && e.at >= dayStart && e.at < dayEnd)
+      .reduce((acc, e) => acc + (e.seconds || 0), 0);
+    return { dayStart, minutes: Math.round(seconds / 60) };
+  });
+  const maxMinutes = Math.max(1, ...minutesPerDay.map(d => d.minutes));
+
+  const modeUses = filtered.filter(e => e.kind === 'mode_opened' && e.mode).reduce<Partial<Record<AppMode, number>>>((acc, e) => {
+    acc[e.mode!] = (acc[e.mode!] || 0) + 1;
+    return acc;
+  }, {});
+
+  const handleExport = () => {
+    const blob = new Blob([activityToCsv(filtered, profileNames)], { type: 'text/csv;charset=utf-8' });
+    downloadBlob(blob, `claramente-${new Date().toISOString().slice(0, 10)}.csv`);
+  };
+
+  if (!unlocked) return <AdultGate language={language} onUnlock={() => setUnlocked(true)} />;
+
+  const statCards = [
+    { icon: <Clock className="w-6 h-6" />, label: t.readingMinutes, value: Math.round(readingSeconds / 60), color: 'text-indigo-500 bg-indigo-50' },
+    { icon: <BookCheck className="w-6 h-6" />, label: t.documentsCompleted, value: completedDocs, color: 'text-emerald-500 bg-emerald-50' },
+    { icon: <Trophy className="w-6 h-6" />, label: t.quizAverage, value: quizAverage === null ? '—' : `${quizAverage}%`, color: 'text-amber-500 bg-amber-50' },
+    { icon: <BookMarked className="w-6 h-6" />, label: t.wordsLookedUp, value: uniqueWords.length, color: 'text-purple-500 bg-purple-50' }
+  ];
+
+  return (
+    <div className="max-w-5xl mx-auto py-8 px-4">
+      <div className="flex flex-col md:flex-row items-center justify-between gap-4 p-6 mb-8 bg-white border-2 border-indigo-50 rounded-3xl shadow-sm">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-indigo-100 text-indigo-600 rounded-2xl flex items-center justify-center shadow-inner"><BarChart3 className="w-6 h-6" /></div>
+          <h2 className="text-2xl font-black text-gray-800 tracking-tight">{t.dashboardTitle}</h2>
+        </div>
+        <div className="flex flex-wrap items-center justify-center gap-2">
+          <select value={profileFilter} onChange={(e) => setProfileFilter(e.target.value)} className="px-3 h-10 rounded-xl bg-slate-100 text-slate-600 font-bold outline-none">
+            <option value="all">{t.allReaders}</option>
+            {profiles.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <div className="flex bg-slate-100 p-1 rounded-xl gap-1">
+            {RANGES.map(days => (
+              <button key={days} onClick={() => setRangeDays(days)} className={`px-3 h-8 rounded-lg text-sm font-black transition-all ${rangeDays === days ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>
+                {t.lastDays.replace('{days}', days)}
+              </button>
+            ))}
+          </div>
+          <button onClick={handleExport} className="flex items-center gap-2 px-4 h-10 bg-indigo-600 text-white rounded-xl font-bold active:scale-95 transition-all">
+            <Download className="w-4 h-4" /> CSV
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+        {statCards.map(card => (
+          <div key={card.label} className="p-5 bg-white border-2 border-slate-50 rounded-3xl shadow-sm">
+            <div className={`w-10 h-10 rounded-xl flex items-center justify-center mb-3 ${card.color}`}>{card.icon}</div>
+            <p className="text-3xl font-black text-slate-800">{card.value}</p>
+            <p className="text-xs font-black uppercase tracking-widest text-slate-400">{card.label}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-6 mb-8 bg-white border-2 border-slate-50 rounded-3xl shadow-sm">
+        <h3 className="text-sm font-black uppercase tracking-widest text-slate-400 mb-6">{t.readingMinutesPerDay}</h3>
+        <div className="flex items-end gap-1 h-40">
+          {minutesPerDay.map(day => (
+            <div key={day.dayStart} className="flex-1 h-full flex flex-col justify-end items-center gap-1" title={`${new Date(day.dayStart).toLocaleDateString(language)}: ${day.minutes} min`}>
+              <div className="w-full bg-indigo-400 rounded-t-md" style={{ height: `${(day.minutes / maxMinutes) * 100}%`, minHeight: day.minutes ? 4 : 0 }} />
+              {rangeDays <= 7 && <span className="text-[10px] font-bold text-slate-400">{new Date(day.dayStart).toLocaleDateString(language, { weekday: 'short' })}</span>}
+            </div>
+          ))}
+        </div>
+        {Object.keys(modeUses).length > 0 && (
+          <div className="flex flex-wrap gap-2 mt-6">
+            {Object.entries(modeUses).map(([mode, count]) => (
+              <span key={mode} className="px-3 py-1 bg-slate-50 rounded-full text-sm font-bold text-slate-500">{t.modeNames[mode] || mode} · {count}</span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="p-6 bg-white border-2 border-slate-50 rounded-3xl shadow-sm">
+          <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-widest text-slate-400 mb-4"><Trophy className="w-4 h-4" /> {t.quizHistory}</h3>
+          {quizzes.length === 0 ? <p className="text-slate-300 font-bold">{t.noActivity}</p> : (
+            <ul className="divide-y divide-slate-50">
+              {quizzes.slice().reverse().map(e => (
+                <li key={e.id} className="flex items-center justify-between gap-3 py-2">
+                  <span className="min-w-0">
+                    <span className="block font-bold text-slate-700 truncate">{titleOf(e)}</span>
+                    <span className="text-xs text-slate-400">{new Date(e.at).toLocaleDateString(language)}{e.profileId && profileNames[e.profileId] ? ` · ${profileNames[e.profileId]}` : ''}</span>
+                  </span>
+                  <span className="font-black text-amber-500 shrink-0">{e.score}/{e.total}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-6 bg-white border-2 border-slate-50 rounded-3xl shadow-sm">
+          <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-widest text-slate-400 mb-4"><BookMarked className="w-4 h-4" /> {t.wordsLookedUp}</h3>
+          {uniqueWords.length === 0 ? <p className="text-slate-300 font-bold">{t.noActivity}</p> : (
+            <div className="flex flex-wrap gap-2">
+              {uniqueWords.map(word => <span key={word} className="px-3 py-1 bg-purple-50 text-purple-700 rounded-full text-sm font-bold">{word}</span>)}
+            </div>
+          )}
+        </div>
+
+        <div className="p-6 bg-white border-2 border-slate-50 rounded-3xl shadow-sm md:col-span-2">
+          <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-widest text-slate-400 mb-4"><MessageCircle className="w-4 h-4" /> {t.questionsAsked}</h3>
+          {questions.length === 0 ? <p className="text-slate-300 font-bold">{t.noActivity}</p> : (
+            <ul className="flex flex-col gap-2">
+              {questions.map(e => (
+                <li key={e.id} className="p-3 bg-slate-50 rounded-2xl">
+                  <p className="font-medium text-slate-700">{e.question}</p>
+                  <p className="text-xs text-slate-400 mt-1">{titleOf(e)} · {new Date(e.at).toLocaleDateString(language)}</p>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        {profiles.length > 0 && (
+          <div className="p-6 bg-white border-2 border-slate-50 rounded-3xl shadow-sm md:col-span-2">
+            <h3 className="flex items-center gap-2 text-sm font-black uppercase tracking-widest text-slate-400 mb-4"><ShieldCheck className="w-4 h-4" /> {t.readerAges}</h3>
+            <ul className="divide-y divide-slate-50">
+              {profiles.map(p => (
+                <li key={p.id} className="flex items-center justify-between gap-3 py-2">
+                  <span className="font-bold text-slate-700 truncate">{p.name}</span>
+                  <div className="flex bg-slate-100 p-1 rounded-xl gap-1 shrink-0">
+                    {AGE_BANDS.map(band => (
+                      <button
+                        key={band}
+                        onClick={() => onProfileChange(p.id, { ageBand: band })}
+                        className={`px-3 h-8 rounded-lg text-sm font-black transition-all ${(p.ageBand || DEFAULT_AGE_BAND) === band ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+                      >
+                        {t.ageBands[band]}
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
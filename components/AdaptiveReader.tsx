@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Settings, 
   ArrowRight,
@@ -9,21 +9,59 @@ import {
   FastForward,
   Play,
   Loader2,
-  AlertCircle
+  AlertCircle,
+  Mic2,
+  PlayCircle,
+  BookMarked,
+  Ruler,
+  MessageCircle,
+  X
 } from 'lucide-react';
-import { ReaderSettings, Language } from '../types';
-import { THEMES } from '../constants';
+import { ReaderSettings, ReaderProfile, Language, DocumentPage, NarratorStyle, WordDefinition, SyllableMode, ReadingRulerSettings, RulerMode, RulerColor, DocumentPassage } from '../types';
+import { THEMES, RULER_COLORS, getFontClass } from '../constants';
 import { TRANSLATIONS } from '../translations';
-import { generateSpeech, decode, decodeAudioData, getSharedAudioContext, unlockAudioForiOS } from '../services/geminiService';
+import { generateSpeech, decode, decodeAudioData, getSharedAudioContext, unlockAudioForiOS, getSpeechVoices, getDefaultVoice, speechOptionsFor } from '../services/geminiService';
+import { splitSentences, splitWords, wordAtProgress, cleanWord } from '../services/textSegments';
+import { splitSyllables } from '../services/syllables';
+import { loadArtifacts, saveArtifacts } from '../services/libraryStore';
+import { logActivity } from '../services/activityLog';
+import { WordPopover } from './WordPopover';
+import { GlossaryPanel } from './GlossaryPanel';
+import { ReadingRuler } from './ReadingRuler';
 
-interface AdaptiveReaderProps { text: string; language: Language; }
+interface AdaptiveReaderProps {
+  text: string;
+  pages?: DocumentPage[];
+  language: Language;
+  documentId?: string;
+  profile?: ReaderProfile;
+  onProfileChange?: (changes: Partial<ReaderProfile>) => void;
+  // Passage the tutor cited, highlighted and scrolled into view
+  focus?: DocumentPassage;
+  onBackToTutor?: () => void;
+}
 
-type Step = 'FONT' | 'SPACING' | 'READ';
+type Step = 'FONT' | 'SPACING' | 'VOICE' | 'READ';
 
-export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }) => {
-  const [step, setStep] = useState<Step>('FONT');
-  const [playbackSpeed, setPlaybackSpeed] = useState(1.0);
-  const [settings, setSettings] = useState<ReaderSettings>({
+const NARRATOR_STYLES: NarratorStyle[] = ['neutral', 'calm', 'storyteller', 'cheerful'];
+
+const SYLLABLE_MODES: SyllableMode[] = ['off', 'colors', 'dots'];
+
+const RULER_MODES: RulerMode[] = ['off', 'band', 'mask'];
+
+const DEFAULT_RULER: ReadingRulerSettings = { mode: 'off', lines: 1, color: 'yellow', opacity: 0.4 };
+
+interface ScheduledChunk { index: number; start: number; duration: number; }
+
+interface WordLookup { word: string; context: string; anchor: DOMRect; }
+
+const sameWord = (a: string, b: string) => a.toLocaleLowerCase() === b.toLocaleLowerCase();
+
+export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, pages, language, documentId, profile, onProfileChange, focus, onBackToTutor }) => {
+  // A profile that already went through the setup goes straight to reading
+  const [step, setStep] = useState<Step>(profile?.settings ? 'READ' : 'FONT');
+  const [playbackSpeed, setPlaybackSpeed] = useState(profile?.playbackSpeed ?? 1.0);
+  const [settings, setSettings] = useState<ReaderSettings>(profile?.settings || {
     fontSize: 24,
     lineHeight: 1.6,
     letterSpacing: 1.2,
@@ -33,32 +71,218 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
   
   const [isReading, setIsReading] = useState(false);
   const [isBuffering, setIsBuffering] = useState(false);
+  const [activeSentence, setActiveSentence] = useState<number | null>(null);
+  const [activeWord, setActiveWord] = useState<number | null>(null);
+  const [previewVoice, setPreviewVoice] = useState<string | null>(null);
+  const [glossary, setGlossary] = useState<WordDefinition[]>([]);
+  const [lookup, setLookup] = useState<WordLookup | null>(null);
+  const [showGlossary, setShowGlossary] = useState(false);
+  const [rulerTop, setRulerTop] = useState(0);
+  const [lineHeightPx, setLineHeightPx] = useState(0);
   
   const activeSourcesRef = useRef<AudioBufferSourceNode[]>([]);
   const nextStartTimeRef = useRef<number>(0);
-  const isAbortedRef = useRef(false);
+  // Each narration run gets a number; stopping bumps it so an old run's workers quit
+  const runRef = useRef(0);
   const playbackRateRef = useRef(1);
-  const audioBufferQueueRef = useRef<AudioBuffer[]>([]);
+  const audioBufferQueueRef = useRef<{ index: number; buffer: AudioBuffer }[]>([]);
   const prefetchIndexRef = useRef(0);
   const chunksRef = useRef<string[]>([]);
+  const scheduleRef = useRef<ScheduledChunk[]>([]);
+  const sentenceRefs = useRef<(HTMLSpanElement | null)[]>([]);
+  const textRef = useRef<HTMLParagraphElement>(null);
+  const activeWordRef = useRef<HTMLSpanElement>(null);
+  const textEndRef = useRef<HTMLDivElement>(null);
+  const completedRef = useRef(false);
 
   const t = TRANSLATIONS[language];
 
+  const sentences = useMemo(() => splitSentences(text || ''), [text]);
+  const sentenceWords = useMemo(() => sentences.map(s => splitWords(s.text)), [sentences]);
+  const syllableMode = settings.syllables || 'off';
+  const sentenceSyllables = useMemo(
+    () => syllableMode === 'off' ? null : sentenceWords.map(words => words.map(w => splitSyllables(w.text, language))),
+    [sentenceWords, syllableMode, language]
+  );
+
+  // First sentence of every source page, for page markers and jumping
+  const pageStarts = useMemo(() => {
+    const starts = new Map<number, number>();
+    if (!pages || pages.length < 2) return starts;
+    for (const page of pages) {
+      const idx = sentences.findIndex(s => s.start >= page.start && s.start < page.end);
+      if (idx >= 0 && !starts.has(idx)) starts.set(idx, page.number);
+    }
+    return starts;
+  }, [pages, sentences]);
+
+  const jumpToPage = (pageNumber: number) => {
+    for (const [idx, number] of pageStarts) {
+      if (number === pageNumber) {
+        sentenceRefs.current[idx]?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+        return;
+      }
+    }
+  };
+
   useEffect(() => { playbackRateRef.current = playbackSpeed; }, [playbackSpeed]);
+
+  useEffect(() => {
+    loadArtifacts(documentId, language).then(artifacts => setGlossary(artifacts.glossary || []));
+  }, [documentId, language]);
+
+  useEffect(() => {
+    if (step === 'READ') onProfileChange?.({ settings, playbackSpeed });
+  }, [step, settings, playbackSpeed]);
   
   useEffect(() => {
-    if (text) {
-      chunksRef.current = text.match(/[^.!?\n]+[.!?\n]*/g)?.map(s => s.trim()).filter(s => s.length > 2) || [text];
-    }
+    chunksRef.current = sentences.map(s => s.text);
     return () => stopAudio();
-  }, [text]);
+  }, [sentences]);
+
+  // Follow the audio clock to know which sentence and word are being spoken
+  useEffect(() => {
+    if (!isReading) return;
+    const ctx = getSharedAudioContext();
+    let frame = 0;
+    const tick = () => {
+      const now = ctx.currentTime;
+      const current = scheduleRef.current.find(c => now >= c.start && now < c.start + c.duration);
+      if (current) {
+        const progress = (now - current.start) / current.duration;
+        setActiveSentence(current.index);
+        setActiveWord(wordAtProgress(sentenceWords[current.index] || [], progress));
+      }
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isReading, sentenceWords]);
+
+  const [focusDismissed, setFocusDismissed] = useState(false);
+  useEffect(() => { setFocusDismissed(false); }, [focus]);
+
+  // Sentences overlapping the cited passage
+  const focusSentences = useMemo(() => {
+    const focused = new Set<number>();
+    if (!focus || focusDismissed) return focused;
+    sentences.forEach((s, i) => { if (s.start < focus.end && s.end > focus.start) focused.add(i); });
+    return focused;
+  }, [focus, focusDismissed, sentences]);
+
+  useEffect(() => {
+    if (step !== 'READ' || !focus) return;
+    const first = sentences.findIndex(s => s.start < focus.end && s.end > focus.start);
+    if (first < 0) return;
+    // Wait for the text to be laid out after switching from the setup steps
+    const frame = requestAnimationFrame(() => sentenceRefs.current[first]?.scrollIntoView({ behavior: 'smooth', block: 'center' }));
+    return () => cancelAnimationFrame(frame);
+  }, [step, focus, sentences]);
+
+  useEffect(() => {
+    if (activeSentence === null) return;
+    sentenceRefs.current[activeSentence]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [activeSentence]);
+
+  const ruler = { ...DEFAULT_RULER, ...settings.ruler };
+  const updateRuler = (changes: Partial<ReadingRulerSettings>) => {
+    setSettings(prev => ({ ...prev, ruler: { ...DEFAULT_RULER, ...prev.ruler, ...changes } }));
+  };
+
+  // The ruler moves in whole rendered lines, so measure what the browser uses
+  useEffect(() => {
+    if (textRef.current) setLineHeightPx(parseFloat(getComputedStyle(textRef.current).lineHeight) || settings.fontSize * settings.lineHeight);
+  }, [step, settings.fontSize, settings.lineHeight, settings.fontFamily, text]);
+
+  // While narrating, the ruler follows the spoken word
+  useEffect(() => {
+    if (ruler.mode === 'off' || !activeWordRef.current || !textRef.current) return;
+    const word = activeWordRef.current.getBoundingClientRect();
+    const wordCenter = word.top + word.height / 2 - textRef.current.getBoundingClientRect().top;
+    setRulerTop(Math.max(0, wordCenter - (ruler.lines * lineHeightPx) / 2));
+  }, [activeSentence, activeWord, ruler.mode, ruler.lines, lineHeightPx]);
 
   const stopAudio = () => {
-    isAbortedRef.current = true;
+    runRef.current++;
     activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
     activeSourcesRef.current = [];
+    audioBufferQueueRef.current = [];
+    scheduleRef.current = [];
+    prefetchIndexRef.current = 0;
     setIsReading(false);
     setIsBuffering(false);
+    setActiveSentence(null);
+    setActiveWord(null);
+  };
+
+  const selectedVoice = settings.voices?.[language] || getDefaultVoice(language);
+
+  const handlePreviewVoice = async (voice: string, style: NarratorStyle = settings.narratorStyle || 'neutral') => {
+    setSettings(prev => ({ ...prev, voices: { ...prev.voices, [language]: voice }, narratorStyle: style }));
+    setPreviewVoice(voice);
+    try {
+      const ctx = getSharedAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      const buffer = await decodeAudioData(decode(await generateSpeech(t.voicePreview, language, { voice, style })), ctx);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => setPreviewVoice(null);
+      source.start();
+    } catch (err) {
+      console.error(err);
+      setPreviewVoice(null);
+    }
+  };
+
+  const openWord = (rawWord: string, context: string, target: HTMLElement) => {
+    const word = cleanWord(rawWord);
+    if (!word) return;
+    setLookup({ word, context, anchor: target.getBoundingClientRect() });
+    logActivity({ kind: 'word_looked_up', mode: 'READER', word });
+  };
+
+  // A text counts as read once it was narrated to the end or scrolled through
+  const markCompleted = () => {
+    if (completedRef.current) return;
+    completedRef.current = true;
+    logActivity({ kind: 'document_completed', mode: 'READER' });
+  };
+
+  useEffect(() => {
+    completedRef.current = false;
+  }, [text]);
+
+  useEffect(() => {
+    if (step !== 'READ' || !textEndRef.current) return;
+    const observer = new IntersectionObserver(entries => {
+      if (entries[0].isIntersecting && window.scrollY > 0) markCompleted();
+    });
+    observer.observe(textEndRef.current);
+    return () => observer.disconnect();
+  }, [step, text]);
+
+  // Latest lookups first; looking a word up again moves it to the top
+  const updateGlossary = (change: (prev: WordDefinition[]) => WordDefinition[]) => {
+    const next = change(glossary);
+    setGlossary(next);
+    saveArtifacts(documentId, language, { glossary: next });
+  };
+
+  const handleWordDefined = (entry: WordDefinition) => {
+    updateGlossary(prev => [entry, ...prev.filter(e => !sameWord(e.word, entry.word))]);
+  };
+
+  const handleSay = async (phrase: string) => {
+    try {
+      const ctx = getSharedAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      const buffer = await decodeAudioData(decode(await generateSpeech(phrase, language, speechOptionsFor(settings, language))), ctx);
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.start();
+    } catch (err) { console.error(err); }
   };
 
   const handleFinalStep = () => {
@@ -76,21 +300,23 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
       if (ctx.state === 'suspended') await ctx.resume();
 
       setIsReading(true);
-      isAbortedRef.current = false;
+      const run = ++runRef.current;
+      const isStale = () => run !== runRef.current;
       setIsBuffering(audioBufferQueueRef.current.length === 0);
       
       nextStartTimeRef.current = ctx.currentTime;
       let playIndex = 0;
 
       const fetchWorker = async () => {
-        while (prefetchIndexRef.current < chunksRef.current.length && !isAbortedRef.current) {
+        while (prefetchIndexRef.current < chunksRef.current.length && !isStale()) {
           if (audioBufferQueueRef.current.length < 3) {
+            const index = prefetchIndexRef.current++;
             try {
-              const chunk = chunksRef.current[prefetchIndexRef.current++];
-              const base64 = await generateSpeech(chunk, language);
-              if (isAbortedRef.current) return;
+              const base64 = await generateSpeech(chunksRef.current[index], language, speechOptionsFor(settings, language));
+              if (isStale()) return;
               const buffer = await decodeAudioData(decode(base64), ctx);
-              audioBufferQueueRef.current.push(buffer);
+              if (isStale()) return;
+              audioBufferQueueRef.current.push({ index, buffer });
               if (isReading) setIsBuffering(false);
             } catch (e) { console.error(e); }
           } else {
@@ -99,12 +325,13 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
         }
       };
 
-      fetchWorker();
+      let fetchDone = false;
+      fetchWorker().finally(() => { fetchDone = true; });
 
-      while (playIndex < chunksRef.current.length && !isAbortedRef.current) {
+      while (playIndex < chunksRef.current.length && !isStale()) {
         if (audioBufferQueueRef.current.length > 0) {
           setIsBuffering(false);
-          const buffer = audioBufferQueueRef.current.shift()!;
+          const { index, buffer } = audioBufferQueueRef.current.shift()!;
           const source = ctx.createBufferSource();
           source.buffer = buffer;
           source.playbackRate.value = playbackRateRef.current;
@@ -116,17 +343,25 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
           
           const duration = buffer.duration / playbackRateRef.current;
           nextStartTimeRef.current = startTime + duration;
-          playIndex++;
+          scheduleRef.current.push({ index, start: startTime, duration });
+          playIndex = index + 1;
           
           await new Promise(r => setTimeout(r, (duration * 1000) - 50));
+        } else if (fetchDone) {
+          break;
         } else {
           setIsBuffering(true);
           await new Promise(r => setTimeout(r, 100));
         }
       }
       
-      if (playIndex >= chunksRef.current.length && !isAbortedRef.current) {
+      if (!isStale()) {
+        if (playIndex >= chunksRef.current.length) markCompleted();
+        await new Promise(r => setTimeout(r, 50));
         setIsReading(false);
+        setActiveSentence(null);
+        setActiveWord(null);
+        scheduleRef.current = [];
         prefetchIndexRef.current = 0;
       }
     } catch (err) {
@@ -135,20 +370,87 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
   };
 
   const currentTheme = THEMES[settings.theme] || THEMES.light;
-  const getFontClass = (f: string) => f === 'dyslexic' ? 'font-dyslexic' : f === 'rounded' ? 'font-rounded' : 'font-sans';
 
+  // Colours restart on every word so the first syllable always looks the same.
+  // The spoken word keeps the highlight colour and alternates brightness instead.
+  const renderWord = (word: string, syllables: string[] | undefined, isSpoken: boolean) => {
+    if (!syllables || syllables.length < 2) return word;
+    if (syllableMode === 'dots') {
+      return syllables.map((syllable, i) => (
+        <React.Fragment key={i}>
+          {i > 0 && <span className="opacity-40 select-none">·</span>}
+          {syllable}
+        </React.Fragment>
+      ));
+    }
+    return syllables.map((syllable, i) => (
+      <span key={i} className={isSpoken ? (i % 2 ? 'opacity-60' : '') : currentTheme.syllableColors[i % 2]}>{syllable}</span>
+    ));
+  };
+
+  const renderNarratedText = () => {
+    const nodes: React.ReactNode[] = [];
+    let cursor = 0;
+    sentences.forEach((sentence, sIdx) => {
+      if (sentence.start > cursor) nodes.push(text.slice(cursor, sentence.start));
+      const pageNumber = pageStarts.get(sIdx);
+      if (pageNumber !== undefined) {
+        nodes.push(
+          <span key={`page-${pageNumber}`} className="inline-block mr-3 px-2 py-0.5 rounded-full border border-current text-xs font-black uppercase tracking-widest opacity-40 align-middle select-none">
+            {t.page} {pageNumber}
+          </span>
+        );
+      }
+      const isActive = activeSentence === sIdx;
+      const words = sentenceWords[sIdx];
+      nodes.push(
+        <span
+          key={sIdx}
+          ref={el => { sentenceRefs.current[sIdx] = el; }}
+          className={`rounded-lg transition-colors duration-300 ${isActive ? currentTheme.highlight : focusSentences.has(sIdx) ? 'bg-amber-300/40 box-decoration-clone' : ''}`}
+        >
+          {words.map((word, wIdx) => (
+            <React.Fragment key={wIdx}>
+              {wIdx > 0 && sentence.text.slice(words[wIdx - 1].end, word.start)}
+              <span
+                ref={isActive && activeWord === wIdx ? activeWordRef : undefined}
+                onClick={(e) => openWord(word.text, sentence.text, e.currentTarget)}
+                className={`rounded-md cursor-pointer hover:underline decoration-dotted underline-offset-4 transition-colors duration-150 ${isActive && activeWord === wIdx ? currentTheme.wordHighlight : ''}`}
+              >{renderWord(word.text, sentenceSyllables?.[sIdx][wIdx], isActive && activeWord === wIdx)}</span>
+            </React.Fragment>
+          ))}
+        </span>
+      );
+      cursor = sentence.end;
+    });
+    if (cursor < text.length) nodes.push(text.slice(cursor));
+    return nodes;
+  };
   if (step === 'FONT') {
     return (
       <div className="max-w-4xl mx-auto py-6 md:py-12 text-center px-4">
         <h2 className="text-3xl md:text-5xl font-black mb-8 text-slate-800 tracking-tight">{t.fontStepTitle}</h2>
         <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 md:gap-8">
-          {['standard', 'dyslexic', 'rounded'].map((f) => (
-            <button key={f} onClick={() => setSettings({ ...settings, fontFamily: f as any })}
+          {(['standard', 'dyslexic', 'rounded'] as ReaderSettings['fontFamily'][]).map((f) => (
+            <button key={f} onClick={() => setSettings({ ...settings, fontFamily: f })}
               className={`p-6 md:p-10 rounded-3xl border-4 transition-all shadow-sm ${settings.fontFamily === f ? 'border-indigo-500 bg-indigo-50' : 'border-white bg-white hover:border-indigo-200'}`}>
-              <h3 className={`text-2xl md:text-4xl mb-2 ${getFontClass(f)} text-slate-900`}>{f === 'standard' ? 'Normal' : f === 'dyslexic' ? 'Dyslexic' : 'Rounded'}</h3>
+              <h3 className={`text-2xl md:text-4xl mb-2 ${getFontClass(f)} text-slate-900`}>{t.fontNames[f]}</h3>
             </button>
           ))}
         </div>
+        <div className="mt-10 bg-white p-6 rounded-[2.5rem] border-2 border-slate-50 shadow-sm">
+          <h3 className="text-xl font-black mb-6 text-indigo-600 uppercase tracking-tighter">{t.syllablesTitle}</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            {SYLLABLE_MODES.map(mode => (
+              <button key={mode} onClick={() => setSettings({ ...settings, syllables: mode })}
+                className={`py-4 rounded-2xl border-4 text-lg font-bold transition-all ${syllableMode === mode ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-50 text-slate-500 hover:border-indigo-100 bg-white'}`}>
+                {mode === 'off' ? t.syllableModes.off : mode === 'colors' ? (
+                  <><span className="text-rose-600">{t.syllableModes.colors[0]}</span><span className="text-blue-600">{t.syllableModes.colors[1]}</span><span className="text-rose-600">{t.syllableModes.colors[2]}</span></>
+                ) : t.syllableModes.dots}
+              </button>
+            ))}
+          </div>
+        </div>
         <button onClick={() => { setStep('SPACING'); window.scrollTo(0,0); }} className="mt-12 px-10 py-5 bg-indigo-600 text-white rounded-full font-black text-xl flex items-center gap-3 mx-auto shadow-lg active:scale-95 transition-all shadow-indigo-200">{t.next} <ArrowRight className="w-6 h-6" /></button>
       </div>
     );
@@ -180,7 +482,72 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
             </div>
           </div>
         </div>
-        <button onClick={handleFinalStep} className="px-12 py-5 bg-indigo-600 text-white rounded-full font-black text-xl flex items-center gap-3 shadow-lg active:scale-95 transition-all shadow-indigo-200">
+        <div className="bg-white p-8 rounded-[2.5rem] border-2 border-slate-50 shadow-sm mb-12">
+          <h3 className="text-2xl font-black mb-8 flex items-center gap-3 justify-center text-indigo-600 uppercase tracking-tighter"><Ruler className="w-6 h-6" /> {t.readingRuler}</h3>
+          <div className="grid grid-cols-3 gap-3 mb-8">
+            {RULER_MODES.map(mode => (
+              <button key={mode} onClick={() => updateRuler({ mode })} className={`py-4 rounded-2xl border-4 text-lg font-bold transition-all ${ruler.mode === mode ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-50 text-slate-500 hover:border-indigo-100 bg-white'}`}>
+                {t.rulerModes[mode]}
+              </button>
+            ))}
+          </div>
+          {ruler.mode !== 'off' && (
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-8 items-center">
+              <div>
+                <p className="text-sm font-black uppercase tracking-widest text-slate-400 mb-3">{t.rulerLines}</p>
+                <div className="flex justify-center gap-2">
+                  {[1, 2, 3].map(lines => (
+                    <button key={lines} onClick={() => updateRuler({ lines })} className={`w-12 h-12 rounded-xl border-4 font-black transition-all ${ruler.lines === lines ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-50 text-slate-500 bg-white'}`}>{lines}</button>
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-black uppercase tracking-widest text-slate-400 mb-3">{t.rulerColor}</p>
+                <div className="flex justify-center gap-2">
+                  {(Object.keys(RULER_COLORS) as RulerColor[]).map(color => (
+                    <button key={color} onClick={() => updateRuler({ color })} title={color} className={`w-12 h-12 rounded-xl border-4 transition-all ${ruler.color === color ? 'border-indigo-500 scale-110' : 'border-white'}`} style={{ backgroundColor: `rgb(${RULER_COLORS[color]})` }} />
+                  ))}
+                </div>
+              </div>
+              <div>
+                <p className="text-sm font-black uppercase tracking-widest text-slate-400 mb-3">{t.rulerOpacity}</p>
+                <input type="range" min={0.2} max={0.9} step={0.1} value={ruler.opacity} onChange={(e) => updateRuler({ opacity: Number(e.target.value) })} className="w-full accent-indigo-600" />
+              </div>
+            </div>
+          )}
+        </div>
+        <button onClick={() => { setStep('VOICE'); window.scrollTo(0,0); }} className="px-12 py-5 bg-indigo-600 text-white rounded-full font-black text-xl flex items-center gap-3 shadow-lg active:scale-95 transition-all shadow-indigo-200">
+          {t.next} <ArrowRight className="w-6 h-6" />
+        </button>
+      </div>
+    );
+  }
+
+  if (step === 'VOICE') {
+    return (
+      <div className="max-w-4xl mx-auto py-6 md:py-12 text-center px-4">
+        <h2 className="text-3xl md:text-5xl font-black mb-8 text-slate-800 tracking-tight">{t.voiceStepTitle}</h2>
+        <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-10">
+          {getSpeechVoices().map(voice => (
+            <button key={voice} onClick={() => handlePreviewVoice(voice)}
+              className={`p-5 rounded-3xl border-4 transition-all shadow-sm flex flex-col items-center gap-3 ${selectedVoice === voice ? 'border-indigo-500 bg-indigo-50' : 'border-white bg-white hover:border-indigo-200'}`}>
+              {previewVoice === voice ? <Loader2 className="w-8 h-8 text-indigo-500 animate-spin" /> : <PlayCircle className="w-8 h-8 text-indigo-500" />}
+              <span className="text-lg font-black text-slate-800">{voice}</span>
+            </button>
+          ))}
+        </div>
+        <div className="bg-white p-6 rounded-[2.5rem] border-2 border-slate-50 shadow-sm mb-12">
+          <h3 className="text-xl font-black mb-6 flex items-center gap-3 justify-center text-indigo-600 uppercase tracking-tighter"><Mic2 className="w-6 h-6" /> {t.narratorStyle}</h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {NARRATOR_STYLES.map(style => (
+              <button key={style} onClick={() => handlePreviewVoice(selectedVoice, style)}
+                className={`py-4 rounded-2xl border-4 text-lg font-bold transition-all ${(settings.narratorStyle || 'neutral') === style ? 'border-indigo-500 bg-indigo-50 text-indigo-700' : 'border-slate-50 text-slate-500 hover:border-indigo-100 bg-white'}`}>
+                {t.narratorStyles[style]}
+              </button>
+            ))}
+          </div>
+        </div>
+        <button onClick={handleFinalStep} className="px-12 py-5 bg-indigo-600 text-white rounded-full font-black text-xl flex items-center gap-3 mx-auto shadow-lg active:scale-95 transition-all shadow-indigo-200">
           {t.letsRead} <Check className="w-6 h-6" />
         </button>
       </div>
@@ -209,15 +576,53 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
         </div>
 
         <div className="flex gap-2 w-full md:w-auto justify-end">
+          {pageStarts.size > 0 && (
+            <select
+              defaultValue=""
+              onChange={(e) => { jumpToPage(Number(e.target.value)); e.target.value = ''; }}
+              className="mr-2 px-3 h-10 rounded-xl bg-slate-100 text-slate-600 font-bold outline-none"
+              title={t.page}
+            >
+              <option value="" disabled>{t.page}</option>
+              {Array.from(pageStarts.values()).map(number => (
+                <option key={number} value={number}>{t.page} {number}</option>
+              ))}
+            </select>
+          )}
           {Object.entries(THEMES).map(([k, t]) => (
             <button key={k} onClick={() => setSettings({...settings, theme: k as any})} className={`w-10 h-10 rounded-xl border-2 transition-all flex items-center justify-center ${settings.theme === k ? 'border-indigo-500 bg-indigo-50 shadow-inner' : 'border-transparent opacity-60 hover:opacity-100'} ${t.bg}`}>
               {React.cloneElement(t.icon as any, { className: "w-4 h-4" })}
             </button>
           ))}
+          <button
+            onClick={() => updateRuler({ mode: RULER_MODES[(RULER_MODES.indexOf(ruler.mode) + 1) % RULER_MODES.length] })}
+            title={t.readingRuler}
+            className={`ml-2 w-10 h-10 rounded-xl flex items-center justify-center transition-all ${ruler.mode !== 'off' ? 'bg-indigo-600 text-white' : 'bg-slate-100 hover:bg-slate-200 text-slate-600'}`}
+          >
+            <Ruler className="w-5 h-5" />
+          </button>
+          <button onClick={() => setShowGlossary(true)} title={t.glossary} className="ml-2 flex items-center gap-1 px-3 h-10 bg-slate-100 hover:bg-slate-200 rounded-xl font-black text-slate-600 transition-all">
+            <BookMarked className="w-5 h-5" /> {glossary.length > 0 && glossary.length}
+          </button>
           <button onClick={() => { setStep('FONT'); window.scrollTo(0,0); }} className="ml-2 p-2 bg-slate-100 hover:bg-slate-200 rounded-xl transition-all"><Settings className="w-5 h-5 text-slate-600" /></button>
         </div>
       </div>
 
+      {focusSentences.size > 0 && (
+        <div className="flex items-center gap-3 px-6 py-3 bg-amber-50 border-b border-amber-200 text-amber-900">
+          <MessageCircle className="w-5 h-5 shrink-0" />
+          <span className="flex-1 text-sm font-bold">{t.tutorEvidence}</span>
+          {onBackToTutor && (
+            <button onClick={onBackToTutor} className="px-4 py-2 rounded-xl bg-amber-500 hover:bg-amber-600 text-white text-sm font-black transition-all">
+              {t.backToTutor}
+            </button>
+          )}
+          <button onClick={() => setFocusDismissed(true)} title={t.hideEvidence} className="p-2 rounded-xl hover:bg-amber-100 transition-all">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
       <div className={`flex-1 p-6 md:p-16 lg:p-24 overflow-y-auto custom-scrollbar ${getFontClass(settings.fontFamily)} bg-opacity-100`} style={{ fontSize: settings.fontSize, lineHeight: settings.lineHeight, letterSpacing: settings.letterSpacing, minHeight: '500px' }}>
         <div className="max-w-4xl mx-auto">
           {(!text || text.trim().length < 5) ? (
@@ -226,12 +631,41 @@ export const AdaptiveReader: React.FC<AdaptiveReaderProps> = ({ text, language }
               <p className="text-xl font-black uppercase tracking-widest">{t.noText}</p>
             </div>
           ) : (
-            <p className={`whitespace-pre-wrap transition-colors duration-500 font-medium ${currentTheme.text} leading-relaxed block`}>
-              {text}
-            </p>
+            <div className="relative">
+              <p ref={textRef} className={`relative z-10 whitespace-pre-wrap transition-colors duration-500 font-medium ${currentTheme.text} leading-relaxed block`}>
+                {renderNarratedText()}
+              </p>
+              {ruler.mode !== 'off' && lineHeightPx > 0 && (
+                <ReadingRuler ruler={ruler} top={rulerTop} lineHeight={lineHeightPx} maskClass={currentTheme.bg} onMove={setRulerTop} />
+              )}
+              <div ref={textEndRef} className="h-px" />
+            </div>
           )}
         </div>
       </div>
+
+      {lookup && (
+        <WordPopover
+          key={`${lookup.word}-${lookup.context}`}
+          word={lookup.word}
+          context={lookup.context}
+          anchor={lookup.anchor}
+          language={language}
+          entry={glossary.find(e => sameWord(e.word, lookup.word))}
+          onDefined={handleWordDefined}
+          onSay={handleSay}
+          onClose={() => setLookup(null)}
+        />
+      )}
+      {showGlossary && (
+        <GlossaryPanel
+          entries={glossary}
+          language={language}
+          onSay={handleSay}
+          onRemove={(word) => updateGlossary(prev => prev.filter(e => !sameWord(e.word, word)))}
+          onClose={() => setShowGlossary(false)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,69 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Language } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { loadAdultPin, saveAdultPin } from '../services/profileStore';
+
+interface AdultGateProps {
+  language: Language;
+  onUnlock: () => void;
+  // Smaller version for use inside a card
+  compact?: boolean;
+  // Off where a child could reach the gate: the PIN must then come from the dashboard
+  canCreatePin?: boolean;
+}
+
+// Asks for the adults' PIN, or lets them choose one the first time
+export const AdultGate: React.FC<AdultGateProps> = ({ language, onUnlock, compact, canCreatePin = true }) => {
+  const [savedPin, setSavedPin] = useState(loadAdultPin);
+  const [pinInput, setPinInput] = useState('');
+  const [pinError, setPinError] = useState(false);
+
+  const t = TRANSLATIONS[language];
+
+  const handlePinSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!/^\d{4}$/.test(pinInput)) { setPinError(true); return; }
+    if (!savedPin) {
+      if (!canCreatePin) return;
+      saveAdultPin(pinInput);
+      setSavedPin(pinInput);
+    } else if (pinInput !== savedPin) {
+      setPinError(true);
+      setPinInput('');
+      return;
+    }
+    onUnlock();
+  };
+
+  if (!savedPin && !canCreatePin) {
+    return (
+      <div className={`max-w-sm mx-auto px-4 text-center ${compact ? 'py-4' : 'py-16'}`}>
+        {!compact && <div className="w-16 h-16 mx-auto mb-6 bg-slate-100 text-slate-500 rounded-2xl flex items-center justify-center shadow-inner"><Lock className="w-8 h-8" /></div>}
+        <h2 className={`font-black text-slate-800 tracking-tight mb-2 ${compact ? 'text-xl' : 'text-3xl'}`}>{t.adultsOnly}</h2>
+        <p className="text-slate-500">{t.pinNotSet}</p>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handlePinSubmit} className={`max-w-sm mx-auto px-4 text-center ${compact ? 'py-4' : 'py-16'}`}>
+      {!compact && <div className="w-16 h-16 mx-auto mb-6 bg-slate-100 text-slate-500 rounded-2xl flex items-center justify-center shadow-inner"><Lock className="w-8 h-8" /></div>}
+      <h2 className={`font-black text-slate-800 tracking-tight mb-2 ${compact ? 'text-xl' : 'text-3xl'}`}>{t.adultsOnly}</h2>
+      <p className={`text-slate-500 ${compact ? 'mb-4' : 'mb-8'}`}>{savedPin ? t.enterPin : t.createPin}</p>
+      <input
+        type="password"
+        inputMode="numeric"
+        autoFocus
+        maxLength={4}
+        value={pinInput}
+        onChange={(e) => { setPinInput(e.target.value.replace(/\D/g, '')); setPinError(false); }}
+        className={`w-48 text-center text-4xl tracking-[0.5em] font-black py-4 rounded-2xl border-4 outline-none transition-all ${pinError ? 'border-rose-300 bg-rose-50' : 'border-slate-100 focus:border-indigo-300'}`}
+      />
+      {pinError && <p className="mt-3 text-sm font-bold text-rose-500">{t.wrongPin}</p>}
+      <button type="submit" className={`w-full py-4 bg-indigo-600 text-white rounded-full font-black text-lg shadow-lg shadow-indigo-200 active:scale-95 transition-all ${compact ? 'mt-4' : 'mt-8'}`}>
+        {t.open}
+      </button>
+    </form>
+  );
+};
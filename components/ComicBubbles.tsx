@@ -0,0 +1,51 @@
+import React from 'react';
+import { ComicDialogue, ComicScene, ReaderSettings } from '../types';
+import { getFontClass } from '../constants';
+
+interface ComicBubblesProps {
+  scene: ComicScene;
+  fontFamily: ReaderSettings['fontFamily'];
+  // Reader font size; panels use a scaled-down version of it
+  fontSize: number;
+}
+
+export const panelFontSize = (readerFontSize: number) => Math.round(Math.min(24, Math.max(13, readerFontSize * 0.65)));
+
+const Bubble: React.FC<{ line: ComicDialogue; below: boolean }> = ({ line, below }) => {
+  const right = line.position.endsWith('right');
+  return (
+    <div className={`relative max-w-[70%] ${right ? 'self-end' : 'self-start'}`}>
+      <div className="relative z-10 bg-white border-2 border-slate-800 rounded-[1.25rem] px-3 py-2 shadow-md leading-snug text-slate-900">
+        {line.speaker && <span className="block text-[0.7em] font-black uppercase tracking-wider text-purple-600">{line.speaker}</span>}
+        {line.text}
+      </div>
+      {/* Tail points towards the speaker's corner of the picture */}
+      <div className={`absolute w-4 h-4 bg-white border-slate-800 rotate-45 ${right ? 'right-6' : 'left-6'} ${below ? '-top-2 border-l-2 border-t-2' : '-bottom-2 border-r-2 border-b-2'}`} />
+    </div>
+  );
+};
+
+// Captions and speech bubbles laid over a panel picture. Top items stack down
+// from the top edge and bottom items up from the bottom, so they never overlap.
+export const ComicBubbles: React.FC<ComicBubblesProps> = ({ scene, fontFamily, fontSize }) => {
+  const captions = scene.captions || [];
+  const dialogue = scene.dialogue || [];
+  const isTop = (position: string) => position.startsWith('top');
+
+  return (
+    <div className={`absolute inset-0 flex flex-col justify-between p-3 pointer-events-none ${getFontClass(fontFamily)}`} style={{ fontSize: panelFontSize(fontSize) }}>
+      <div className="flex flex-col gap-3">
+        {captions.filter(c => c.position === 'top').map((c, i) => (
+          <div key={i} className="self-stretch bg-amber-100/95 border-2 border-slate-800 rounded-lg px-3 py-1.5 font-bold text-slate-900 leading-snug shadow-sm">{c.text}</div>
+        ))}
+        {dialogue.filter(d => isTop(d.position)).map((d, i) => <Bubble key={i} line={d} below={false} />)}
+      </div>
+      <div className="flex flex-col gap-3">
+        {dialogue.filter(d => !isTop(d.position)).map((d, i) => <Bubble key={i} line={d} below />)}
+        {captions.filter(c => c.position === 'bottom').map((c, i) => (
+          <div key={i} className="self-stretch bg-amber-100/95 border-2 border-slate-800 rounded-lg px-3 py-1.5 font-bold text-slate-900 leading-snug shadow-sm">{c.text}</div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,78 +1,294 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Loader2, Palette, Volume2, Square, FastForward, PlayCircle } from 'lucide-react';
-import { ComicScene, Language } from '../types';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Loader2, Palette, Volume2, Square, FastForward, PlayCircle, FileDown, ImageDown, RefreshCw, Users, Brush, LayoutGrid, ChevronLeft, ChevronRight } from 'lucide-react';
+import { ComicArtStyle, ComicCharacter, ComicScene, DocumentArtifacts, Language, ReaderSettings, ReadingLevel, SceneImageOptions, SpeechOptions } from '../types';
 import { TRANSLATIONS } from '../translations';
-import { generateComicScenes, generateSceneImage, generateSpeech, decode, decodeAudioData, getSharedAudioContext } from '../services/geminiService';
+import { generateComicScript, generateSceneImage, generateDialogueSpeech, assignDialogueVoices, decode, decodeAudioData, getSharedAudioContext } from '../services/geminiService';
+import { loadArtifacts, saveArtifacts } from '../services/libraryStore';
+import { ComicLayout, PaperSize, exportComicPdf, exportComicPng } from '../services/comicExport';
+import { downloadBlob } from '../services/download';
+import { hasPanelText, panelLines } from '../services/comicPanels';
+import { splitChapters } from '../services/textSegments';
+import { mapWithConcurrency } from '../services/concurrency';
+import { isContentBlocked } from '../services/moderation';
+import { ComicBubbles } from './ComicBubbles';
+import { ContentBlockedNotice } from './ContentSafety';
 
-interface ComicModeProps { text: string; language: Language; }
+interface ComicModeProps { text: string; language: Language; documentId?: string; documentTitle?: string; readingLevel?: ReadingLevel; speechOptions?: SpeechOptions; fontFamily?: ReaderSettings['fontFamily']; fontSize?: number; }
 
 const SPEEDS = [0.8, 1, 1.2];
+const DRAW_CONCURRENCY = 2;
+const PANEL_COUNTS = [3, 4, 6];
+const ART_STYLES: ComicArtStyle[] = ['cartoon', 'watercolor', 'crayon', 'comicbook', 'papercut'];
+const LAYOUTS: ComicLayout[] = ['grid', 'strip'];
+const PAPERS: PaperSize[] = ['A4', 'Letter'];
+const FONTS: ReaderSettings['fontFamily'][] = ['standard', 'dyslexic', 'rounded'];
 
-export const ComicMode: React.FC<ComicModeProps> = ({ text, language }) => {
+export const ComicMode: React.FC<ComicModeProps> = ({ text, language, documentId, documentTitle, readingLevel, speechOptions, fontFamily = 'standard', fontSize = 24 }) => {
   const [scenes, setScenes] = useState<ComicScene[]>([]);
+  const [characters, setCharacters] = useState<ComicCharacter[]>([]);
+  const [style, setStyle] = useState<ComicArtStyle>('cartoon');
+  const [panelCount, setPanelCount] = useState(4);
+  const [sameLook, setSameLook] = useState(true);
+  const [drawing, setDrawing] = useState<number[]>([]);
   const [loading, setLoading] = useState(true);
+  // The current chapter's script was not right for the reader's age
+  const [blocked, setBlocked] = useState(false);
   const [playbackSpeed, setPlaybackSpeed] = useState(1);
   const [speakingIdx, setSpeakingIdx] = useState<number | null>(null);
+  const [playingAll, setPlayingAll] = useState(false);
   const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped by stopAudio so pending narration knows it was cancelled
+  const playTokenRef = useRef(0);
+  const speedRef = useRef(1);
+  const panelRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [layout, setLayout] = useState<ComicLayout>('grid');
+  const [paper, setPaper] = useState<PaperSize>('A4');
+  const [exportFont, setExportFont] = useState(fontFamily);
+  const [exporting, setExporting] = useState<'pdf' | 'png' | null>(null);
+  // Async work checks the run it started in, so a new comic or style discards
+  // panels still being drawn for the old one
+  const runRef = useRef(0);
+  const scenesRef = useRef<ComicScene[]>([]);
+  const chapters = useMemo(() => splitChapters(text), [text]);
+  const [chapterIdx, setChapterIdx] = useState(0);
+  const chapterIdxRef = useRef(0);
+  // Scenes of every chapter, empty until the chapter is first opened
+  const chapterScenesRef = useRef<ComicScene[][]>([]);
+  const charactersRef = useRef<ComicCharacter[]>([]);
+  const styleRef = useRef<ComicArtStyle>('cartoon');
 
   const t = TRANSLATIONS[language];
 
+  const commitScenes = (next: ComicScene[], changes: Partial<DocumentArtifacts> = {}) => {
+    scenesRef.current = next;
+    setScenes(next);
+    chapterScenesRef.current = chapterScenesRef.current.map((scenes, i) => i === chapterIdxRef.current ? next : scenes);
+    return saveArtifacts(documentId, language, { ...changes, comicChapters: chapterScenesRef.current }, readingLevel);
+  };
+
+  const updateCharacters = (next: ComicCharacter[]) => {
+    charactersRef.current = next;
+    setCharacters(next);
+  };
+
+  const drawPanel = async (idx: number, run: number, look: SceneImageOptions) => {
+    setDrawing(prev => [...prev, idx]);
+    try {
+      // Any other finished panel, from this chapter or an earlier one, shows the
+      // model how the characters look
+      const otherChapters = chapterScenesRef.current.filter((_, c) => c !== chapterIdxRef.current).flat();
+      const referenceImage = sameLook
+        ? (scenesRef.current.find((s, i) => i !== idx && s.imageUrl) || otherChapters.find(s => s.imageUrl))?.imageUrl
+        : undefined;
+      const img = await generateSceneImage(scenesRef.current[idx], { ...look, referenceImage });
+      if (run !== runRef.current) return;
+      await commitScenes(scenesRef.current.map((s, i) => i === idx ? { ...s, imageUrl: img } : s));
+    } catch (err) {
+      console.error("Error al dibujar la viñeta:", err);
+    } finally {
+      setDrawing(prev => prev.filter(i => i !== idx));
+    }
+  };
+
+  const drawMissingPanels = async (run: number) => {
+    const look = { style: styleRef.current, characters: charactersRef.current };
+    // Panels saved by an earlier visit keep their picture
+    let missing = scenesRef.current.map((s, i) => s.imageUrl ? -1 : i).filter(i => i >= 0);
+    // With nothing drawn yet, the first panel goes alone so the others can use
+    // it as their reference
+    if (sameLook && missing.length && missing.length === scenesRef.current.length) {
+      await drawPanel(missing[0], run, look);
+      missing = missing.slice(1);
+    }
+    await mapWithConcurrency(missing, DRAW_CONCURRENCY, async (idx: number) => {
+      if (run === runRef.current) await drawPanel(idx, run, look);
+    });
+  };
+
+  // Writes the chapter's script on its first visit, then draws what is missing
+  const openChapter = async (idx: number, count: number, fresh = false) => {
+    const run = ++runRef.current;
+    stopAudio();
+    chapterIdxRef.current = idx;
+    setChapterIdx(idx);
+    const existing = fresh ? [] : chapterScenesRef.current[idx] || [];
+    scenesRef.current = existing;
+    setScenes(existing);
+    if (existing.length) setPanelCount(existing.length);
+    setBlocked(false);
+    try {
+      setLoading(true);
+      if (!existing.length) {
+        const script = await generateComicScript(chapters[idx].text, language, count, charactersRef.current);
+        if (run !== runRef.current) return;
+        updateCharacters(script.characters);
+        await commitScenes(script.scenes, { comicCharacters: script.characters, comicStyle: styleRef.current });
+      }
+      await drawMissingPanels(run);
+    } catch (err) {
+      if (isContentBlocked(err)) { if (run === runRef.current) setBlocked(true); }
+      else console.error(err);
+    } finally { if (run === runRef.current) setLoading(false); }
+  };
+
   useEffect(() => {
-    const createComic = async () => {
-      try {
-        setLoading(true);
-        const extracted = await generateComicScenes(text, language);
-        setScenes(extracted);
-        const updated = [...extracted];
-        for (let i = 0; i < extracted.length; i++) {
-          const img = await generateSceneImage(extracted[i]);
-          updated[i] = { ...updated[i], imageUrl: img };
-          setScenes([...updated]);
-        }
-      } catch (err) { console.error(err); } finally { setLoading(false); }
+    const run = ++runRef.current;
+    const loadComic = async () => {
+      const cached = await loadArtifacts(documentId, language, readingLevel);
+      if (run !== runRef.current) return;
+      // Comics saved before chapters existed are a single chapter
+      const saved = cached.comicChapters || (cached.comicScenes ? [cached.comicScenes] : []);
+      chapterScenesRef.current = saved.length === chapters.length ? saved : chapters.map(() => []);
+      updateCharacters(chapterScenesRef.current.some(scenes => scenes.length) ? cached.comicCharacters || [] : []);
+      styleRef.current = cached.comicStyle || styleRef.current;
+      setStyle(styleRef.current);
+      await openChapter(0, panelCount);
     };
-    createComic();
-    return () => stopAudio();
-  }, [text, language]);
+    loadComic().catch(err => console.error(err));
+    return () => { runRef.current++; stopAudio(); };
+  }, [text, language, documentId, readingLevel]);
+
+  const handlePanelCount = (count: number) => {
+    if (count === panelCount && scenes.length) return;
+    setPanelCount(count);
+    openChapter(chapterIdxRef.current, count, true);
+  };
+
+  const handleStyle = async (artStyle: ComicArtStyle) => {
+    if (artStyle === style) return;
+    const run = ++runRef.current;
+    styleRef.current = artStyle;
+    setStyle(artStyle);
+    setLoading(true);
+    // Other chapters are redrawn in the new style when they are opened
+    chapterScenesRef.current = chapterScenesRef.current.map(scenes => scenes.map(({ imageUrl, ...scene }) => scene));
+    await commitScenes(chapterScenesRef.current[chapterIdxRef.current], { comicStyle: artStyle });
+    await drawMissingPanels(run);
+    if (run === runRef.current) setLoading(false);
+  };
+
+  const handleRedraw = (idx: number) => {
+    if (drawing.includes(idx)) return;
+    drawPanel(idx, runRef.current, { style: styleRef.current, characters: charactersRef.current });
+  };
+
+  const chapterTitle = (idx: number) => chapters[idx]?.title || t.comicPart.replace('{n}', String(idx + 1));
+
+  // Speakers in bubbles may be missing from the character sheet
+  const voices = useMemo(() => {
+    const speakers = [...characters.map(c => c.name), ...scenes.flatMap(s => (s.dialogue || []).map(d => d.speaker))];
+    return assignDialogueVoices(speakers, language, speechOptions);
+  }, [characters, scenes, language, speechOptions]);
 
   const stopAudio = () => {
+    playTokenRef.current++;
     if (currentSourceRef.current) { try { currentSourceRef.current.stop(); } catch(e) {} currentSourceRef.current = null; }
     setSpeakingIdx(null);
+    setPlayingAll(false);
+  };
+
+  const changeSpeed = (speed: number) => {
+    setPlaybackSpeed(speed);
+    speedRef.current = speed;
+    if (currentSourceRef.current) currentSourceRef.current.playbackRate.value = speed;
+  };
+
+  const panelAudio = (idx: number) => generateDialogueSpeech(panelLines(scenesRef.current[idx]), language, voices, speechOptions);
+
+  // Resolves when the audio finishes or is stopped
+  const playAudio = async (b64: string, token: number) => {
+    const ctx = getSharedAudioContext();
+    const buffer = await decodeAudioData(decode(b64), ctx);
+    if (token !== playTokenRef.current) return;
+    const source = ctx.createBufferSource();
+    source.buffer = buffer;
+    source.playbackRate.value = speedRef.current;
+    source.connect(ctx.destination);
+    currentSourceRef.current = source;
+    await new Promise<void>(resolve => {
+      source.onended = () => resolve();
+      source.start();
+    });
   };
 
-  const handleSpeak = async (idx: number, sceneText: string) => {
-    if (speakingIdx === idx) { stopAudio(); return; }
+  const handleSpeak = async (idx: number) => {
+    if (speakingIdx === idx && !playingAll) { stopAudio(); return; }
     stopAudio();
-    
+    const token = playTokenRef.current;
     try {
       const ctx = getSharedAudioContext();
       if (ctx.state === 'suspended') await ctx.resume();
-      
       setSpeakingIdx(idx);
+      await playAudio(await panelAudio(idx), token);
+    } catch (err) {
+      console.error("Error al narrar la viñeta:", err);
+    } finally {
+      if (token === playTokenRef.current) setSpeakingIdx(null);
+    }
+  };
 
-      const b64 = await generateSpeech(sceneText, language);
-      const buffer = await decodeAudioData(decode(b64), ctx);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.playbackRate.value = playbackSpeed;
-      source.connect(ctx.destination);
-      source.onended = () => setSpeakingIdx(null);
-      currentSourceRef.current = source;
-      source.start();
-    } catch (err) { 
-      stopAudio(); 
+  // Narrates panel after panel, fetching the next one while the current plays
+  const handlePlayAll = async () => {
+    if (playingAll) { stopAudio(); return; }
+    stopAudio();
+    const token = playTokenRef.current;
+    setPlayingAll(true);
+    try {
+      const ctx = getSharedAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      const count = scenesRef.current.length;
+      let next = panelAudio(0);
+      for (let i = 0; i < count; i++) {
+        setSpeakingIdx(i);
+        panelRefs.current[i]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+        const audio = await next;
+        if (token !== playTokenRef.current) return;
+        if (i + 1 < count) {
+          next = panelAudio(i + 1);
+          next.catch(() => undefined);
+        }
+        await playAudio(audio, token);
+        if (token !== playTokenRef.current) return;
+      }
+    } catch (err) {
+      console.error("Error al narrar el cómic:", err);
+    } finally {
+      if (token === playTokenRef.current) {
+        setSpeakingIdx(null);
+        setPlayingAll(false);
+      }
     }
   };
 
-  if (loading && scenes.length === 0) {
-    return (
-      <div className="flex flex-col items-center justify-center py-20 text-center animate-pulse">
-        <Loader2 className="w-20 h-20 text-purple-600 animate-spin mb-8" />
-        <h3 className="text-3xl font-black text-gray-800 mb-2 tracking-tight">{t.drawingComic}</h3>
-        <p className="text-lg text-gray-400 font-medium italic">{t.paintingScenes}</p>
-      </div>
-    );
-  }
+  const canExport = scenes.length > 0 && scenes.every(s => s.imageUrl) && !exporting;
+
+  const handleExport = async (format: 'pdf' | 'png') => {
+    setExporting(format);
+    try {
+      const documentName = documentTitle ? documentTitle.replace(/\.[^.]+$/, '') : t.comicTitle;
+      const title = chapters.length > 1 ? `${documentName} - ${chapterTitle(chapterIdx)}` : documentName;
+      const options = { title, layout, paper, fontFamily: exportFont };
+      const blob = format === 'pdf' ? await exportComicPdf(scenes, options) : await exportComicPng(scenes, options);
+      downloadBlob(blob, `${title} - ${t.comicTitle}.${format}`);
+    } catch (err) {
+      console.error("Error al exportar el cómic:", err);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  const pill = (active: boolean) => `px-3 py-1.5 text-xs font-black rounded-xl transition-all ${active ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:text-purple-600'}`;
+
+  const comicLoader = (
+    <div className="flex flex-col items-center justify-center py-20 text-center animate-pulse">
+      <Loader2 className="w-20 h-20 text-purple-600 animate-spin mb-8" />
+      <h3 className="text-3xl font-black text-gray-800 mb-2 tracking-tight">{t.drawingComic}</h3>
+      <p className="text-lg text-gray-400 font-medium italic">{t.paintingScenes}</p>
+    </div>
+  );
+
+  // Long texts keep the chapter navigation on screen while a chapter is written
+  if (loading && scenes.length === 0 && chapters.length === 1) return comicLoader;
 
   return (
     <div className="max-w-4xl mx-auto space-y-10 pb-20 px-4">
@@ -84,42 +300,146 @@ export const ComicMode: React.FC<ComicModeProps> = ({ text, language }) => {
              <p className="text-purple-400 font-bold uppercase tracking-[0.1em] text-[10px]">{t.comicSubtitle}</p>
            </div>
         </div>
-        <div className="flex items-center bg-gray-50 p-1.5 rounded-2xl gap-1 border border-gray-100">
-          <FastForward className="w-4 h-4 text-gray-300 mx-2" />
-          {SPEEDS.map(s => (
-            <button key={s} onClick={() => setPlaybackSpeed(s)} className={`px-4 py-2 text-sm font-black rounded-xl transition-all ${playbackSpeed === s ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:text-purple-600'}`}>
-              {s}x
-            </button>
-          ))}
+        <div className="flex flex-wrap items-center justify-center gap-3">
+          <button
+            onClick={handlePlayAll}
+            disabled={!scenes.length}
+            className={`flex items-center gap-2 px-5 py-3 rounded-2xl text-sm font-black shadow-md transition-all disabled:opacity-40 ${playingAll ? 'bg-red-500 text-white' : 'bg-purple-600 text-white hover:bg-purple-700'}`}
+          >
+            {playingAll ? <Square className="w-4 h-4 fill-current" /> : <PlayCircle className="w-5 h-5" />}
+            {playingAll ? t.stopComic : t.playComic}
+          </button>
+          <div className="flex items-center bg-gray-50 p-1.5 rounded-2xl gap-1 border border-gray-100">
+            <FastForward className="w-4 h-4 text-gray-300 mx-2" />
+            {SPEEDS.map(s => (
+              <button key={s} onClick={() => changeSpeed(s)} className={`px-4 py-2 text-sm font-black rounded-xl transition-all ${playbackSpeed === s ? 'bg-purple-600 text-white shadow-md' : 'text-gray-400 hover:text-purple-600'}`}>
+                {s}x
+              </button>
+            ))}
+          </div>
         </div>
       </div>
 
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-        {scenes.map((scene, idx) => (
-          <div key={idx} className="flex flex-col items-center group animate-in slide-in-from-bottom-6">
-            <div className="relative w-full bg-white p-4 rounded-[2.5rem] shadow-sm border border-slate-100 overflow-hidden transition-all active:scale-95">
-              <div className="aspect-square w-full rounded-[2rem] overflow-hidden bg-gray-50 flex items-center justify-center shadow-inner">
-                {scene.imageUrl ? (
-                  <img src={scene.imageUrl} className="w-full h-full object-cover" alt="comic scene" />
-                ) : (
-                  <Loader2 className="animate-spin text-purple-300 w-10 h-10" />
-                )}
-              </div>
-              <button 
-                onClick={() => handleSpeak(idx, scene.description)} 
-                className={`absolute bottom-8 right-8 w-16 h-16 rounded-2xl shadow-xl transition-all flex items-center justify-center ${speakingIdx === idx ? 'bg-red-500 text-white scale-110' : 'bg-white/90 text-purple-600 border border-purple-100 backdrop-blur-md'}`}
-              >
-                {speakingIdx === idx ? <Square className="fill-current w-6 h-6" /> : <PlayCircle className="w-8 h-8" />}
-              </button>
+      {chapters.length > 1 && (
+        <div className="flex items-center gap-3 p-3 bg-white border-2 border-purple-100 rounded-3xl shadow-sm">
+          <button onClick={() => openChapter(chapterIdx - 1, panelCount)} disabled={chapterIdx === 0} aria-label={t.previousChapter} className="w-12 h-12 shrink-0 rounded-2xl bg-purple-50 text-purple-600 flex items-center justify-center transition-all hover:bg-purple-100 disabled:opacity-30">
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <div className="flex-1 min-w-0 text-center">
+            <select value={chapterIdx} onChange={e => openChapter(Number(e.target.value), panelCount)} className="w-full bg-transparent text-center text-lg font-black text-gray-800 truncate cursor-pointer focus:outline-none">
+              {chapters.map((_, i) => <option key={i} value={i}>{chapterTitle(i)}</option>)}
+            </select>
+            <p className="text-[10px] font-bold uppercase tracking-[0.1em] text-purple-400">
+              {t.chapterOf.replace('{current}', String(chapterIdx + 1)).replace('{total}', String(chapters.length))}
+            </p>
+          </div>
+          <button onClick={() => openChapter(chapterIdx + 1, panelCount)} disabled={chapterIdx === chapters.length - 1} aria-label={t.nextChapter} className="w-12 h-12 shrink-0 rounded-2xl bg-purple-50 text-purple-600 flex items-center justify-center transition-all hover:bg-purple-100 disabled:opacity-30">
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        </div>
+      )}
+
+      <div className="flex flex-wrap items-center gap-3 p-4 bg-white border-2 border-purple-100 rounded-3xl shadow-sm">
+        <span className="text-xs font-black uppercase tracking-widest text-purple-400 mr-1">{t.exportComic}</span>
+        <div className="flex bg-gray-50 p-1 rounded-2xl gap-1 border border-gray-100">
+          {LAYOUTS.map(l => <button key={l} onClick={() => setLayout(l)} className={pill(layout === l)}>{t.comicLayouts[l]}</button>)}
+        </div>
+        <div className="flex bg-gray-50 p-1 rounded-2xl gap-1 border border-gray-100">
+          {PAPERS.map(p => <button key={p} onClick={() => setPaper(p)} className={pill(paper === p)}>{p}</button>)}
+        </div>
+        <div className="flex bg-gray-50 p-1 rounded-2xl gap-1 border border-gray-100">
+          {FONTS.map(f => <button key={f} onClick={() => setExportFont(f)} className={pill(exportFont === f)}>{t.fontNames[f]}</button>)}
+        </div>
+        <div className="flex gap-2 ml-auto">
+          <button onClick={() => handleExport('pdf')} disabled={!canExport} title={canExport ? undefined : t.comicNotReady} className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-purple-600 text-white text-sm font-black shadow-md disabled:opacity-40 disabled:shadow-none transition-all">
+            {exporting === 'pdf' ? <Loader2 className="w-4 h-4 animate-spin" /> : <FileDown className="w-4 h-4" />} PDF
+          </button>
+          <button onClick={() => handleExport('png')} disabled={!canExport} title={canExport ? undefined : t.comicNotReady} className="flex items-center gap-2 px-4 py-2 rounded-2xl bg-white text-purple-600 border-2 border-purple-100 text-sm font-black disabled:opacity-40 transition-all">
+            {exporting === 'png' ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageDown className="w-4 h-4" />} PNG
+          </button>
+        </div>
+      </div>
+
+      <div className="p-5 bg-white border-2 border-purple-100 rounded-3xl shadow-sm space-y-4">
+        <div className="flex flex-wrap items-center gap-3">
+          <LayoutGrid className="w-4 h-4 text-purple-300" />
+          <span className="text-xs font-black uppercase tracking-widest text-purple-400">{t.comicPanels}</span>
+          <div className="flex bg-gray-50 p-1 rounded-2xl gap-1 border border-gray-100">
+            {PANEL_COUNTS.map(n => <button key={n} onClick={() => handlePanelCount(n)} disabled={loading} className={pill(panelCount === n)}>{n}</button>)}
+          </div>
+          <label className="flex items-center gap-2 ml-auto text-xs font-bold text-gray-500 cursor-pointer">
+            <input type="checkbox" checked={sameLook} onChange={e => setSameLook(e.target.checked)} className="w-4 h-4 accent-purple-600" />
+            {t.comicSameLook}
+          </label>
+        </div>
+        <div className="flex flex-wrap items-center gap-3">
+          <Brush className="w-4 h-4 text-purple-300" />
+          <span className="text-xs font-black uppercase tracking-widest text-purple-400">{t.comicStyle}</span>
+          <div className="flex flex-wrap bg-gray-50 p-1 rounded-2xl gap-1 border border-gray-100">
+            {ART_STYLES.map(a => <button key={a} onClick={() => handleStyle(a)} disabled={loading && style !== a} className={pill(style === a)}>{t.comicStyles[a]}</button>)}
+          </div>
+        </div>
+        {characters.length > 0 && (
+          <div className="pt-4 border-t border-purple-50">
+            <div className="flex items-center gap-2 mb-3">
+              <Users className="w-4 h-4 text-purple-300" />
+              <span className="text-xs font-black uppercase tracking-widest text-purple-400">{t.comicCharacters}</span>
             </div>
-            <div className={`mt-4 w-full text-center p-4 rounded-2xl transition-all ${speakingIdx === idx ? 'bg-purple-50' : ''}`}>
-              <p className={`text-lg font-bold italic tracking-tight leading-snug ${speakingIdx === idx ? 'text-purple-600' : 'text-gray-700'}`}>
-                "{scene.description}"
-              </p>
+            <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+              {characters.map(c => (
+                <div key={c.name} className="p-3 bg-purple-50/50 rounded-2xl">
+                  <p className="font-black text-gray-800">{c.name}</p>
+                  <p className="text-sm text-gray-500 leading-snug">{c.appearance}</p>
+                </div>
+              ))}
             </div>
           </div>
-        ))}
+        )}
       </div>
+
+      {blocked ? <ContentBlockedNotice language={language} compact /> : loading && scenes.length === 0 ? comicLoader : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+          {scenes.map((scene, idx) => (
+            <div key={idx} ref={el => { panelRefs.current[idx] = el; }} className="flex flex-col items-center group animate-in slide-in-from-bottom-6">
+              <div className={`relative w-full bg-white p-4 rounded-[2.5rem] shadow-sm border overflow-hidden transition-all active:scale-95 ${speakingIdx === idx ? 'border-purple-400 ring-4 ring-purple-200' : 'border-slate-100'}`}>
+                <div className="relative aspect-square w-full rounded-[2rem] overflow-hidden bg-gray-50 flex items-center justify-center shadow-inner">
+                  {scene.imageUrl && !drawing.includes(idx) ? (
+                    <>
+                      <img src={scene.imageUrl} className="w-full h-full object-cover" alt="comic scene" />
+                      <ComicBubbles scene={scene} fontFamily={fontFamily} fontSize={fontSize} />
+                    </>
+                  ) : drawing.includes(idx) || loading ? (
+                    <Loader2 className="animate-spin text-purple-300 w-10 h-10" />
+                  ) : (
+                    <Palette className="text-purple-200 w-10 h-10" />
+                  )}
+                </div>
+              </div>
+              <div className={`mt-4 w-full flex items-center gap-3 p-3 rounded-2xl transition-all ${speakingIdx === idx ? 'bg-purple-50' : ''}`}>
+                <button
+                  onClick={() => handleRedraw(idx)}
+                  disabled={drawing.includes(idx)}
+                  title={t.comicRedraw}
+                  aria-label={t.comicRedraw}
+                  className="shrink-0 w-11 h-11 rounded-xl bg-white text-purple-600 border border-purple-100 shadow-sm flex items-center justify-center transition-all hover:scale-105 disabled:opacity-50"
+                >
+                  <RefreshCw className={`w-5 h-5 ${drawing.includes(idx) ? 'animate-spin' : ''}`} />
+                </button>
+                <p className={`flex-1 text-center text-lg font-bold italic tracking-tight leading-snug ${speakingIdx === idx ? 'text-purple-600' : 'text-gray-700'}`}>
+                  {/* Scenes from before speech bubbles only have the description */}
+                  {!hasPanelText(scene) && `"${scene.description}"`}
+                </p>
+                <button 
+                  onClick={() => handleSpeak(idx)} 
+                  className={`shrink-0 w-16 h-16 rounded-2xl shadow-xl transition-all flex items-center justify-center ${speakingIdx === idx ? 'bg-red-500 text-white scale-110' : 'bg-white text-purple-600 border border-purple-100'}`}
+                >
+                  {speakingIdx === idx ? <Square className="fill-current w-6 h-6" /> : <PlayCircle className="w-8 h-8" />}
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { ShieldAlert, Eye } from 'lucide-react';
+import { Language, ModerationVerdict } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { AdultGate } from './AdultGate';
+
+interface ContentBlockedNoticeProps {
+  language: Language;
+  // Smaller version for use inside a mode
+  compact?: boolean;
+  // Replace the default "not suitable" wording
+  title?: string;
+  text?: string;
+  children?: React.ReactNode;
+}
+
+// What every mode shows when a text or an answer is not right for the reader's age
+export const ContentBlockedNotice: React.FC<ContentBlockedNoticeProps> = ({ language, compact, title, text, children }) => {
+  const t = TRANSLATIONS[language];
+  return (
+    <div className={`max-w-xl mx-auto text-center ${compact ? 'p-6' : 'py-16 px-4'}`}>
+      <div className={`mx-auto bg-amber-100 text-amber-600 rounded-2xl flex items-center justify-center shadow-inner ${compact ? 'w-12 h-12 mb-4' : 'w-16 h-16 mb-6'}`}>
+        <ShieldAlert className={compact ? 'w-6 h-6' : 'w-8 h-8'} />
+      </div>
+      <h2 className={`font-black text-slate-800 tracking-tight mb-2 ${compact ? 'text-xl' : 'text-3xl'}`}>{title || t.contentBlockedTitle}</h2>
+      <p className="text-slate-500 font-medium">{text || t.contentBlockedText}</p>
+      {children}
+    </div>
+  );
+};
+
+interface ModerationReviewProps {
+  verdict: ModerationVerdict;
+  language: Language;
+  onShowAll: () => void;
+}
+
+// Behind the adults' PIN: what was flagged and why, and a way to show the text anyway
+export const ModerationReview: React.FC<ModerationReviewProps> = ({ verdict, language, onShowAll }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [unlocked, setUnlocked] = useState(false);
+
+  const t = TRANSLATIONS[language];
+
+  if (!isOpen) {
+    return (
+      <button onClick={() => setIsOpen(true)} className="inline-flex items-center gap-2 mt-4 px-4 py-2 rounded-full border border-slate-200 text-slate-500 hover:text-slate-700 font-bold text-sm transition-all">
+        <Eye className="w-4 h-4" /> {t.reviewForAdults}
+      </button>
+    );
+  }
+
+  if (!unlocked) return <AdultGate language={language} compact canCreatePin={false} onUnlock={() => setUnlocked(true)} />;
+
+  return (
+    <div className="mt-6 p-5 bg-white border-2 border-slate-100 rounded-3xl text-left">
+      <h3 className="text-sm font-black uppercase tracking-widest text-slate-400 mb-3">
+        {t.flaggedPassages} · {t.ageBand} {t.ageBands[verdict.ageBand]}
+      </h3>
+      <ul className="flex flex-col gap-2 max-h-72 overflow-y-auto custom-scrollbar">
+        {verdict.flags.map((flag, i) => (
+          <li key={i} className="p-3 bg-slate-50 rounded-2xl">
+            <div className="flex items-center gap-2 mb-1 text-xs font-black uppercase tracking-wider">
+              <span className="text-slate-500">{t.moderationCategories[flag.category]}</span>
+              <span className={`px-2 py-0.5 rounded-full ${flag.severity === 'high' ? 'bg-rose-100 text-rose-600' : flag.severity === 'medium' ? 'bg-amber-100 text-amber-700' : 'bg-slate-200 text-slate-500'}`}>
+                {t.moderationSeverities[flag.severity]}
+              </span>
+            </div>
+            <p className="font-medium text-slate-700">“{flag.text}”</p>
+          </li>
+        ))}
+      </ul>
+      <button onClick={onShowAll} className="mt-4 w-full py-3 bg-slate-800 text-white rounded-full font-black active:scale-95 transition-all">
+        {t.showFullText}
+      </button>
+    </div>
+  );
+};
@@ -10,9 +10,10 @@ import {
   MicOff, 
   VolumeX,
   Brain,
-  PlayCircle
+  PlayCircle,
+  BookOpen,
+  Square
 } from 'lucide-react';
-import { Modality } from "@google/genai";
 import { 
   generateSimpleSummary, 
   chatWithDocument, 
@@ -20,18 +21,63 @@ import {
   decode, 
   decodeAudioData, 
   generateSuggestedQuestions,
-  getAI,
-  encode
+  connectLive,
+  createStreamCheck,
+  StreamCheck
 } from '../services/geminiService';
-import { ChatMessage, Language } from '../types';
+import { LiveSession } from '../services/aiProvider';
+import { startMicCapture, createPcmPlayer, MicCapture, PcmPlayer } from '../services/liveAudio';
+import { isContentBlocked, isRedacted } from '../services/moderation';
+import { loadArtifacts, saveArtifacts } from '../services/libraryStore';
+import { logActivity } from '../services/activityLog';
+import { ChatMessage, DocumentPassage, Language, ReadingLevel, SpeechOptions } from '../types';
 import { TRANSLATIONS } from '../translations';
+import { splitSentences } from '../services/textSegments';
+import { ContentBlockedNotice } from './ContentSafety';
 
 interface ExplainModeProps {
   text: string;
   language: Language;
+  documentId?: string;
+  readingLevel?: ReadingLevel;
+  speechOptions?: SpeechOptions;
+  // Opens the reader at a passage the tutor cited
+  onOpenPassage?: (passage: DocumentPassage) => void;
 }
 
-export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
+const CITATION_PREVIEW_WORDS = 6;
+
+const citationPreview = (passage: DocumentPassage) => {
+  const words = passage.text.split(/\s+/).filter(Boolean);
+  return words.length > CITATION_PREVIEW_WORDS ? `${words.slice(0, CITATION_PREVIEW_WORDS).join(' ')}…` : words.join(' ');
+};
+
+// Sentences waiting to be spoken; `done` once no more will be added
+interface Narration { sentences: string[]; done: boolean; aborted: boolean; }
+
+// Audio that arrived while `heard` characters of the transcript had
+interface HeldAudio { pcm: string; heard: number; }
+
+// The tutor's spoken answer in progress; `bubble` is its chat bubble once
+// shown. Audio is held until the transcript it came with passed the check.
+interface VoiceReply {
+  check: StreamCheck;
+  transcript: string;
+  checkedLength: number;
+  checkedAll: boolean;
+  audio: HeldAudio[];
+  bubble?: ChatMessage;
+  stopped: boolean;
+}
+
+// Pieces of a voice conversation, filled in as they start
+interface VoiceConversation { session?: LiveSession; mic?: MicCapture; player?: PcmPlayer; reply?: VoiceReply; }
+
+// Microphone loudness (RMS) that counts as the child talking over the tutor.
+// Echo cancellation keeps the tutor's own voice well below it.
+const BARGE_IN_LEVEL = 0.06;
+
+export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language, documentId, readingLevel, speechOptions, onOpenPassage }) => {
   const [summary, setSummary] = useState<string[]>([]);
   const [suggestedQuestions, setSuggestedQuestions] = useState<string[]>([]);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
@@ -40,11 +86,22 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
   const [isLoadingContent, setIsLoadingContent] = useState(true);
   const [speakingIdx, setSpeakingIdx] = useState<number | null>(null);
   const [isListening, setIsListening] = useState(false);
+  // Answer being written, shown before it joins `messages`
+  const [streamingText, setStreamingText] = useState<string | null>(null);
+  const [tutorTalking, setTutorTalking] = useState(false);
+  // The summary was not right for the reader's age
+  const [summaryBlocked, setSummaryBlocked] = useState(false);
   
   const audioContextRef = useRef<AudioContext | null>(null);
   const activeSourcesRef = useRef<AudioBufferSourceNode[]>([]);
+  const narrationRef = useRef<Narration | null>(null);
+  const generationRef = useRef<AbortController | null>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
-  const liveSessionRef = useRef<any>(null);
+  const voiceRef = useRef<VoiceConversation | null>(null);
+  // Role of the chat bubble the transcription is still being written into
+  const openBubbleRef = useRef<ChatMessage['role'] | null>(null);
+  // After the child interrupts, the rest of the answer is not played
+  const bargedInRef = useRef(false);
 
   const t = TRANSLATIONS[language];
 
@@ -52,108 +109,282 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
     const init = async () => {
       try {
         setIsLoadingContent(true);
+        setSummaryBlocked(false);
+        const cached = await loadArtifacts(documentId, language, readingLevel);
+        setMessages(cached.chatHistory?.length ? cached.chatHistory : [{ role: 'model', text: t.tutorGreeting }]);
         const [sum, qs] = await Promise.all([
-          generateSimpleSummary(text, language),
-          generateSuggestedQuestions(text, language)
+          cached.summary || generateSimpleSummary(text, language),
+          cached.suggestedQuestions || generateSuggestedQuestions(text, language)
         ]);
         setSummary(sum);
         setSuggestedQuestions(qs);
-        setMessages([{ role: 'model', text: t.tutorGreeting }]);
-      } catch (err) { console.error(err); } finally { setIsLoadingContent(false); }
+        if (!cached.summary || !cached.suggestedQuestions) {
+          await saveArtifacts(documentId, language, { summary: sum, suggestedQuestions: qs }, readingLevel);
+        }
+      } catch (err) {
+        if (isContentBlocked(err)) setSummaryBlocked(true);
+        else console.error(err);
+      } finally { setIsLoadingContent(false); }
     };
     init();
     return () => {
+      generationRef.current?.abort();
       stopAudio();
-      if (liveSessionRef.current) liveSessionRef.current.close();
+      stopVoice();
     };
-  }, [text, language]);
+  }, [text, language, documentId, readingLevel]);
+
+  useEffect(() => {
+    if (!isLoadingContent && messages.length > 0) saveArtifacts(documentId, language, { chatHistory: messages }, readingLevel);
+  }, [messages]);
 
   const stopAudio = () => {
+    if (narrationRef.current) narrationRef.current.aborted = true;
+    narrationRef.current = null;
     activeSourcesRef.current.forEach(s => { try { s.stop(); } catch(e) {} });
     activeSourcesRef.current = [];
     setSpeakingIdx(null);
   };
 
-  const handleSpeak = async (idx: number, messageText: string) => {
-    if (speakingIdx === idx) { stopAudio(); return; }
+  // Like the reader's narration: sentences are voiced one after another and
+  // scheduled back to back, so speech starts as soon as the first is ready.
+  // New sentences can be added while it plays.
+  const startNarration = (idx: number, sentences: string[], done: boolean): Narration => {
     stopAudio();
+    const narration: Narration = { sentences, done, aborted: false };
+    narrationRef.current = narration;
     setSpeakingIdx(idx);
-    try {
+    const run = async () => {
       if (!audioContextRef.current) audioContextRef.current = new AudioContext({ sampleRate: 24000 });
       const ctx = audioContextRef.current;
       if (ctx.state === 'suspended') await ctx.resume();
-      const b64 = await generateSpeech(messageText, language);
-      const buffer = await decodeAudioData(decode(b64), ctx);
-      const source = ctx.createBufferSource();
-      source.buffer = buffer;
-      source.connect(ctx.destination);
-      source.onended = () => setSpeakingIdx(null);
-      activeSourcesRef.current.push(source);
-      source.start();
-    } catch (err) { stopAudio(); }
+      let next = 0;
+      let nextStartTime = ctx.currentTime;
+      while (!narration.aborted) {
+        if (next < narration.sentences.length) {
+          try {
+            const buffer = await decodeAudioData(decode(await generateSpeech(narration.sentences[next++], language, speechOptions)), ctx);
+            if (narration.aborted) return;
+            const source = ctx.createBufferSource();
+            source.buffer = buffer;
+            source.connect(ctx.destination);
+            const startTime = Math.max(nextStartTime, ctx.currentTime);
+            source.start(startTime);
+            activeSourcesRef.current.push(source);
+            nextStartTime = startTime + buffer.duration;
+          } catch (e) { console.error(e); }
+        } else if (narration.done) {
+          break;
+        } else {
+          await new Promise(r => setTimeout(r, 100));
+        }
+      }
+      await new Promise(r => setTimeout(r, Math.max(0, (nextStartTime - ctx.currentTime) * 1000)));
+      if (narrationRef.current === narration) {
+        narrationRef.current = null;
+        activeSourcesRef.current = [];
+        setSpeakingIdx(null);
+      }
+    };
+    run().catch(err => { console.error(err); if (narrationRef.current === narration) stopAudio(); });
+    return narration;
+  };
+
+  const handleSpeak = (idx: number, messageText: string) => {
+    if (speakingIdx === idx) { stopAudio(); return; }
+    startNarration(idx, splitSentences(messageText).map(s => s.text), true);
+  };
+
+  // Stops the answer being written and anything being read aloud
+  const handleStop = () => {
+    generationRef.current?.abort();
+    stopAudio();
   };
 
   const handleSend = async (val?: string) => {
     const msgToSend = val || input;
     if (!msgToSend.trim() || isTyping) return;
     setInput('');
+    const history = messages;
     setMessages(prev => [...prev, { role: 'user', text: msgToSend }]);
+    logActivity({ kind: 'question_asked', mode: 'EXPLAIN', question: msgToSend });
     setIsTyping(true);
+    const controller = new AbortController();
+    generationRef.current = controller;
+    // Answers arrive a checked sentence at a time, so each one can be read aloud straight away
+    const narration = startNarration(history.length + 1, [], false);
+    const queueSentences = (answer: string) => {
+      const ready = splitSentences(answer).map(s => s.text);
+      if (ready.length > narration.sentences.length) narration.sentences.push(...ready.slice(narration.sentences.length));
+    };
     try {
-      const response = await chatWithDocument(text, msgToSend, language);
-      setMessages(prev => [...prev, { role: 'model', text: response }]);
-      handleSpeak(messages.length + 1, response);
-    } catch (err) { 
-      setMessages(prev => [...prev, { role: 'model', text: 'Oops! Error.' }]); 
-    } finally { setIsTyping(false); }
+      const reply = await chatWithDocument(text, history, msgToSend, language, {
+        signal: controller.signal,
+        onText: (partial) => {
+          setStreamingText(partial);
+          queueSentences(partial);
+        }
+      });
+      if (reply.text) {
+        setMessages(prev => [...prev, reply]);
+        if (!controller.signal.aborted) queueSentences(reply.text);
+      }
+    } catch (err) {
+      if (isContentBlocked(err)) {
+        stopAudio();
+        setMessages(prev => [...prev, { role: 'model', text: t.answerBlocked }]);
+      } else {
+        setMessages(prev => [...prev, { role: 'model', text: 'Oops! Error.' }]);
+      }
+    } finally {
+      narration.done = true;
+      if (generationRef.current === controller) generationRef.current = null;
+      setStreamingText(null);
+      setIsTyping(false);
+    }
+  };
+
+  const appendTranscript = (role: ChatMessage['role'], piece: string) => {
+    const continues = openBubbleRef.current === role;
+    openBubbleRef.current = role;
+    setMessages(prev => {
+      const last = prev[prev.length - 1];
+      if (continues && last?.role === role) return [...prev.slice(0, -1), { ...last, text: last.text + piece }];
+      return [...prev, { role, text: piece.trimStart() }];
+    });
   };
 
+  const stopVoice = () => {
+    const voice = voiceRef.current;
+    voiceRef.current = null;
+    openBubbleRef.current = null;
+    bargedInRef.current = false;
+    setIsListening(false);
+    setTutorTalking(false);
+    if (!voice) return;
+    voice.mic?.stop();
+    voice.player?.close();
+    voice.session?.close();
+  };
+
+  // Hands-free conversation: the microphone streams to the tutor, its spoken
+  // answer plays back once checked and both sides appear as chat bubbles
   const toggleListen = async () => {
-    if (isListening) {
-      if (liveSessionRef.current) liveSessionRef.current.close();
-      liveSessionRef.current = null;
-      setIsListening(false);
-      return;
-    }
+    if (voiceRef.current) { stopVoice(); return; }
+    handleStop();
+    const voice: VoiceConversation = {};
+    voiceRef.current = voice;
+    setIsListening(true);
+    const isCurrent = () => voiceRef.current === voice;
+
+    const showReply = (reply: VoiceReply, replyText: string) => {
+      const bubble: ChatMessage = { role: 'model', text: replyText.trimStart() };
+      const previous = reply.bubble;
+      reply.bubble = bubble;
+      if (!previous) openBubbleRef.current = 'model';
+      setMessages(prev => previous ? prev.map(m => m === previous ? bubble : m) : [...prev, bubble]);
+    };
+
+    const newReply = (): VoiceReply => ({
+      check: createStreamCheck(language), transcript: '', checkedLength: 0, checkedAll: false, audio: [], stopped: false
+    });
+
+    const releaseAudio = (reply: VoiceReply) => {
+      while (reply.audio.length && (reply.checkedAll || reply.audio[0].heard < reply.checkedLength)) {
+        voice.player?.play(reply.audio.shift()!.pcm);
+      }
+    };
+
+    const stopReply = (reply: VoiceReply) => {
+      if (reply.stopped) return;
+      reply.stopped = true;
+      reply.audio = [];
+      voice.player?.interrupt();
+      showReply(reply, t.answerBlocked);
+    };
+
+    // The transcript is shown and its audio played once checked. Speech can't
+    // be masked, so an answer with anything to hide is stopped and replaced.
+    const checkReply = (reply: VoiceReply, final: boolean) => {
+      reply.check.push(reply.transcript, final).then(checked => {
+        if (reply.stopped || !isCurrent()) return;
+        if (isRedacted(checked)) { stopReply(reply); return; }
+        if (checked.trim()) showReply(reply, checked);
+        reply.checkedLength = checked.length;
+        // Speech that came without any transcript can't be checked
+        if (final && !reply.transcript.trim()) reply.audio = [];
+        reply.checkedAll = final;
+        releaseAudio(reply);
+      }, err => {
+        if (!isContentBlocked(err)) console.error("No se pudo revisar la respuesta del tutor:", err);
+        if (isCurrent()) stopReply(reply);
+      });
+    };
+
     try {
-      setIsListening(true);
-      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      const ai = getAI();
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      voice.player = createPcmPlayer(setTutorTalking);
+      const session = await connectLive({
+        lang: language,
+        document: text,
+        summary,
         callbacks: {
-          onopen: () => {
-            const inputCtx = new AudioContext({ sampleRate: 16000 });
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const inputData = e.inputBuffer.getChannelData(0);
-              const int16 = new Int16Array(inputData.length);
-              for (let i = 0; i < inputData.length; i++) int16[i] = inputData[i] * 32768;
-              const pcmBlob = { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' };
-              sessionPromise.then(session => session.sendRealtimeInput({ media: pcmBlob }));
-            };
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
+          onInputTranscription: (piece) => { if (isCurrent()) appendTranscript('user', piece); },
+          onOutputTranscription: (piece) => {
+            if (!isCurrent() || bargedInRef.current) return;
+            const reply = voice.reply ??= newReply();
+            if (reply.stopped) return;
+            reply.transcript += piece;
+            checkReply(reply, false);
           },
-          onmessage: (message) => {
-            if (message.serverContent?.inputTranscription) setInput(message.serverContent.inputTranscription.text);
-            if (message.serverContent?.turnComplete) handleSend();
+          onOutputAudio: (pcm) => {
+            if (!isCurrent() || bargedInRef.current) return;
+            const reply = voice.reply ??= newReply();
+            if (reply.stopped) return;
+            reply.audio.push({ pcm, heard: reply.transcript.length });
+            releaseAudio(reply);
           },
-          onclose: () => setIsListening(false),
-          onerror: () => setIsListening(false)
-        },
-        config: {
-          responseModalities: [Modality.AUDIO],
-          inputAudioTranscription: {},
-          systemInstruction: `You are Claramente, a friendly tutor. Respond in ${language}. Document: ${text.substring(0, 500)}`
+          onInterrupted: () => {
+            voice.player?.interrupt();
+            if (voice.reply) voice.reply.audio = [];
+            voice.reply = undefined;
+            bargedInRef.current = false;
+            openBubbleRef.current = null;
+          },
+          onTurnComplete: () => {
+            if (voice.reply) checkReply(voice.reply, true);
+            voice.reply = undefined;
+            bargedInRef.current = false;
+            openBubbleRef.current = null;
+          },
+          onClose: () => { if (isCurrent()) stopVoice(); },
+          onError: (err) => {
+            console.error("Error en la conversación por voz:", err);
+            if (isCurrent()) stopVoice();
+          }
+        }
+      });
+      if (!isCurrent()) { session.close(); return; }
+      voice.session = session;
+      const mic = await startMicCapture((pcm, level) => {
+        // Talking over the tutor cuts it off straight away, before the
+        // server notices the interruption
+        if (level > BARGE_IN_LEVEL && voice.player?.isPlaying()) {
+          voice.player.interrupt();
+          if (voice.reply) voice.reply.audio = [];
+          bargedInRef.current = true;
+          openBubbleRef.current = null;
         }
+        voice.session?.sendAudio(pcm);
       });
-      liveSessionRef.current = await sessionPromise;
-    } catch (err) { setIsListening(false); }
+      if (!isCurrent()) { mic.stop(); return; }
+      voice.mic = mic;
+    } catch (err) {
+      console.error("No se pudo iniciar la conversación por voz:", err);
+      if (isCurrent()) stopVoice();
+    }
   };
 
-  useEffect(() => { if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight; }, [messages, isTyping]);
+  useEffect(() => { if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight; }, [messages, isTyping, streamingText]);
 
   return (
     <div className="flex flex-col lg:flex-row gap-6 h-auto lg:h-[calc(100vh-160px)]">
@@ -164,6 +395,8 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
           </div>
           {isLoadingContent ? (
             <div className="flex justify-center p-6"><Loader2 className="animate-spin text-indigo-300 w-8 h-8" /></div>
+          ) : summaryBlocked ? (
+            <ContentBlockedNotice language={language} compact />
           ) : (
             <div className="space-y-3">
               {summary.map((p, i) => (
@@ -204,6 +437,20 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
                   <div className={`p-4 md:p-5 rounded-2xl shadow-sm text-base md:text-lg font-medium leading-relaxed ${msg.role === 'user' ? 'bg-indigo-600 text-white rounded-tr-none' : 'bg-white border border-indigo-50 rounded-tl-none text-slate-800'}`}>
                     {msg.text}
                   </div>
+                  {msg.role === 'model' && msg.citations && msg.citations.length > 0 && onOpenPassage && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      {msg.citations.map((passage, i) => (
+                        <button
+                          key={i}
+                          onClick={() => onOpenPassage(passage)}
+                          title={t.seeInText}
+                          className="flex items-center gap-1.5 px-3 py-1.5 rounded-full bg-amber-50 border border-amber-200 text-amber-800 text-xs font-bold hover:bg-amber-100 transition-all text-left"
+                        >
+                          <BookOpen className="w-3.5 h-3.5 shrink-0" /> “{citationPreview(passage)}”
+                        </button>
+                      ))}
+                    </div>
+                  )}
                   {msg.role === 'model' && (
                     <button onClick={() => handleSpeak(idx, msg.text)} className={`absolute -right-10 top-0 p-2 rounded-full transition-all ${speakingIdx === idx ? 'bg-rose-500 text-white' : 'text-slate-300 hover:text-indigo-500'}`}>
                       {speakingIdx === idx ? <VolumeX className="w-5 h-5" /> : <Volume2 className="w-5 h-5" />}
@@ -213,7 +460,19 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
               </div>
             </div>
           ))}
-          {isTyping && (
+          {streamingText && (
+            <div className="flex justify-start">
+              <div className="flex gap-3 max-w-[90%] md:max-w-[80%]">
+                <div className="w-10 h-10 rounded-xl flex items-center justify-center shrink-0 shadow-sm bg-indigo-100 text-indigo-600">
+                  <Bot className="w-6 h-6" />
+                </div>
+                <div className="p-4 md:p-5 rounded-2xl shadow-sm text-base md:text-lg font-medium leading-relaxed bg-white border border-indigo-50 rounded-tl-none text-slate-800">
+                  {streamingText}<span className="inline-block w-2 h-5 ml-1 align-middle bg-indigo-300 animate-pulse rounded-sm" />
+                </div>
+              </div>
+            </div>
+          )}
+          {isTyping && !streamingText && (
             <div className="flex gap-2 p-3 items-center bg-white/70 w-fit rounded-full px-5 border border-indigo-50 text-xs font-bold text-slate-400">
               <Loader2 className="animate-spin w-4 h-4" /> {t.thinking}
             </div>
@@ -228,15 +487,21 @@ export const ExplainMode: React.FC<ExplainModeProps> = ({ text, language }) => {
                 onChange={(e) => setInput(e.target.value)} 
                 onKeyPress={(e) => e.key === 'Enter' && handleSend()} 
                 className={`w-full p-4 md:p-5 rounded-2xl bg-slate-50 border-2 outline-none transition-all text-base font-medium pr-14 ${isListening ? 'border-rose-300 bg-rose-50/30' : 'border-indigo-50 focus:border-indigo-200 focus:bg-white'}`} 
-                placeholder={isListening ? t.listening : t.writeDoubt} 
+                placeholder={isListening ? (tutorTalking ? t.tutorSpeaking : t.listening) : t.writeDoubt} 
               />
-              <button onClick={toggleListen} className={`absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 rounded-xl flex items-center justify-center ${isListening ? 'bg-rose-500 text-white' : 'bg-slate-100 text-slate-400 hover:text-indigo-500'}`}>
+              <button onClick={toggleListen} title={t.talkToTutor} className={`absolute right-3 top-1/2 -translate-y-1/2 w-10 h-10 rounded-xl flex items-center justify-center ${isListening ? 'bg-rose-500 text-white' : 'bg-slate-100 text-slate-400 hover:text-indigo-500'}`}>
                 {isListening ? <MicOff className="w-5 h-5" /> : <Mic className="w-5 h-5" />}
               </button>
             </div>
-            <button onClick={() => handleSend()} disabled={!input.trim() || isTyping} className="w-14 h-14 rounded-2xl shadow-md flex items-center justify-center bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-100">
-              <Send className="w-7 h-7" />
-            </button>
+            {isTyping || (speakingIdx !== null && speakingIdx === messages.length - 1 && messages[speakingIdx]?.role === 'model') ? (
+              <button onClick={handleStop} title={t.stopAnswer} className="w-14 h-14 rounded-2xl shadow-md flex items-center justify-center bg-rose-500 text-white hover:bg-rose-600">
+                <Square className="w-6 h-6 fill-current" />
+              </button>
+            ) : (
+              <button onClick={() => handleSend()} disabled={!input.trim()} className="w-14 h-14 rounded-2xl shadow-md flex items-center justify-center bg-indigo-600 text-white hover:bg-indigo-700 disabled:bg-slate-100">
+                <Send className="w-7 h-7" />
+              </button>
+            )}
           </div>
         </div>
       </div>
@@ -0,0 +1,50 @@
+import React from 'react';
+import { BookMarked, Volume2, Trash2, X } from 'lucide-react';
+import { Language, WordDefinition } from '../types';
+import { TRANSLATIONS } from '../translations';
+
+interface GlossaryPanelProps {
+  entries: WordDefinition[];
+  language: Language;
+  onSay: (text: string) => void;
+  onRemove: (word: string) => void;
+  onClose: () => void;
+}
+
+export const GlossaryPanel: React.FC<GlossaryPanelProps> = ({ entries, language, onSay, onRemove, onClose }) => {
+  const t = TRANSLATIONS[language];
+
+  return (
+    <div className="fixed inset-0 z-[60] flex justify-end bg-slate-900/30 backdrop-blur-sm" onClick={onClose}>
+      <div className="w-full max-w-md h-full bg-white shadow-2xl flex flex-col font-sans" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between p-6 border-b border-indigo-50">
+          <h2 className="flex items-center gap-3 text-2xl font-black text-slate-800 tracking-tight">
+            <BookMarked className="w-6 h-6 text-indigo-500" /> {t.glossary}
+          </h2>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-xl transition-all"><X className="w-6 h-6" /></button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-6 flex flex-col gap-4">
+          {entries.length === 0 ? (
+            <p className="py-20 text-center text-slate-400 font-bold">{t.glossaryEmpty}</p>
+          ) : entries.map(entry => (
+            <div key={entry.word} className="p-5 bg-slate-50 rounded-3xl flex gap-4">
+              {entry.imageUrl && <img src={entry.imageUrl} alt={entry.word} className="w-20 h-20 object-cover rounded-2xl shrink-0" />}
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center justify-between gap-2 mb-1">
+                  <h3 className="text-xl font-black text-slate-800 break-words">{entry.word}</h3>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button onClick={() => onSay(entry.word)} title={t.sayIt} className="p-2 text-indigo-500 hover:bg-indigo-100 rounded-xl transition-all"><Volume2 className="w-4 h-4" /></button>
+                    <button onClick={() => onRemove(entry.word)} title={t.delete} className="p-2 text-slate-300 hover:text-rose-500 rounded-xl transition-all"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                </div>
+                <p className="text-slate-700 font-medium leading-relaxed">{entry.definition}</p>
+                {entry.example && <p className="mt-2 text-sm text-slate-400 italic leading-relaxed">{entry.example}</p>}
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
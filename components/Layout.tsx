@@ -1,6 +1,8 @@
 import React from 'react';
-import { Home, ArrowLeft, Globe } from 'lucide-react';
-import { AppMode, Language } from '../types';
+import { Home, ArrowLeft, Globe, Library, BarChart3 } from 'lucide-react';
+import { AppMode, Language, ReaderProfile } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { ProfileSwitcher } from './ProfileSwitcher';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -9,6 +11,13 @@ interface LayoutProps {
   onLanguageChange: (lang: Language) => void;
   onNavigateHome: () => void;
   onBack: () => void;
+  onOpenLibrary: () => void;
+  onOpenDashboard: () => void;
+  profiles: ReaderProfile[];
+  activeProfileId?: string;
+  onProfileSelect: (id?: string) => void;
+  onProfileCreate: (name: string) => void;
+  onProfileDelete: (id: string) => void;
 }
 
 const LANGUAGES = [
@@ -24,8 +33,17 @@ export const Layout: React.FC<LayoutProps> = ({
   language, 
   onLanguageChange, 
   onNavigateHome, 
-  onBack 
+  onBack,
+  onOpenLibrary,
+  onOpenDashboard,
+  profiles,
+  activeProfileId,
+  onProfileSelect,
+  onProfileCreate,
+  onProfileDelete
 }) => {
+  const t = TRANSLATIONS[language];
+
   return (
     <div className="min-h-screen flex flex-col">
       <header className="bg-white/70 backdrop-blur-md border-b border-indigo-100 py-4 px-6 flex items-center justify-between sticky top-0 z-50 shadow-sm">
@@ -43,6 +61,15 @@ export const Layout: React.FC<LayoutProps> = ({
         </div>
 
         <div className="flex items-center gap-2 md:gap-4">
+          <ProfileSwitcher
+            profiles={profiles}
+            activeProfileId={activeProfileId}
+            language={language}
+            onSelect={onProfileSelect}
+            onCreate={onProfileCreate}
+            onDelete={onProfileDelete}
+          />
+
           <div className="flex bg-slate-100 p-1 rounded-xl gap-1">
             {LANGUAGES.map((lang) => (
               <button
@@ -70,6 +97,20 @@ export const Layout: React.FC<LayoutProps> = ({
                 <span className="hidden sm:inline">Atrás</span>
               </button>
             )}
+            <button 
+              onClick={onOpenLibrary}
+              title={t.library}
+              className={`p-2 border rounded-xl transition-all active:scale-95 shadow-sm ${mode === 'LIBRARY' ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200'}`}
+            >
+              <Library className="w-6 h-6" />
+            </button>
+            <button 
+              onClick={onOpenDashboard}
+              title={t.dashboardTitle}
+              className={`p-2 border rounded-xl transition-all active:scale-95 shadow-sm ${mode === 'DASHBOARD' ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200'}`}
+            >
+              <BarChart3 className="w-6 h-6" />
+            </button>
             <button 
               onClick={onNavigateHome}
               className="p-2 bg-white border border-slate-200 text-slate-400 hover:text-indigo-600 hover:border-indigo-200 rounded-xl transition-all active:scale-95 shadow-sm"
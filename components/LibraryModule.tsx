@@ -0,0 +1,106 @@
+import React, { useState, useEffect } from 'react';
+import { Library, Loader2, BookOpen, Pencil, Trash2, Check, X } from 'lucide-react';
+import { Language, LibraryDocument } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { listDocuments, renameDocument, deleteDocument } from '../services/libraryStore';
+
+interface LibraryModuleProps {
+  language: Language;
+  onOpen: (doc: LibraryDocument) => void;
+}
+
+export const LibraryModule: React.FC<LibraryModuleProps> = ({ language, onOpen }) => {
+  const [documents, setDocuments] = useState<LibraryDocument[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editTitle, setEditTitle] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const t = TRANSLATIONS[language];
+
+  const refresh = async () => {
+    try {
+      setDocuments(await listDocuments());
+    } catch (err) { console.error(err); } finally { setIsLoading(false); }
+  };
+
+  useEffect(() => { refresh(); }, []);
+
+  const handleRename = async (id: string) => {
+    await renameDocument(id, editTitle);
+    setEditingId(null);
+    refresh();
+  };
+
+  const handleDelete = async (id: string) => {
+    await deleteDocument(id);
+    setConfirmDeleteId(null);
+    refresh();
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex justify-center py-20"><Loader2 className="w-12 h-12 text-indigo-400 animate-spin" /></div>
+    );
+  }
+
+  return (
+    <div className="max-w-4xl mx-auto py-8 px-4">
+      <div className="text-center mb-10">
+        <div className="w-16 h-16 mx-auto mb-4 bg-indigo-100 text-indigo-600 rounded-2xl flex items-center justify-center shadow-inner">
+          <Library className="w-8 h-8" />
+        </div>
+        <h2 className="text-4xl font-black text-slate-800 tracking-tight">{t.library}</h2>
+      </div>
+
+      {documents.length === 0 ? (
+        <p className="text-center text-lg text-slate-400 font-medium">{t.libraryEmpty}</p>
+      ) : (
+        <div className="flex flex-col gap-4">
+          {documents.map(doc => (
+            <div key={doc.id} className="bg-white border-2 border-indigo-50 rounded-[2rem] p-6 shadow-sm flex flex-col sm:flex-row sm:items-center gap-4">
+              <div className="flex-1 min-w-0">
+                {editingId === doc.id ? (
+                  <div className="flex gap-2">
+                    <input
+                      autoFocus
+                      value={editTitle}
+                      onChange={(e) => setEditTitle(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && handleRename(doc.id)}
+                      className="flex-1 min-w-0 px-4 py-2 rounded-xl bg-slate-50 border-2 border-indigo-100 focus:border-indigo-300 outline-none font-bold"
+                    />
+                    <button onClick={() => handleRename(doc.id)} className="p-2 bg-indigo-600 text-white rounded-xl" title={t.save}><Check className="w-5 h-5" /></button>
+                    <button onClick={() => setEditingId(null)} className="p-2 bg-slate-100 text-slate-400 rounded-xl"><X className="w-5 h-5" /></button>
+                  </div>
+                ) : (
+                  <h3 className="text-xl font-black text-slate-800 truncate">{doc.title}</h3>
+                )}
+                <p className="text-xs font-bold text-indigo-300 uppercase tracking-widest mt-1">
+                  {new Date(doc.updatedAt).toLocaleDateString(language)}
+                </p>
+              </div>
+
+              <div className="flex items-center gap-2 shrink-0">
+                <button onClick={() => onOpen(doc)} className="flex items-center gap-2 px-5 py-3 bg-indigo-600 text-white rounded-full font-black shadow-md active:scale-95 transition-all">
+                  <BookOpen className="w-5 h-5" /> {t.open}
+                </button>
+                <button onClick={() => { setEditingId(doc.id); setEditTitle(doc.title); }} className="p-3 bg-slate-50 text-slate-400 hover:text-indigo-600 rounded-xl transition-all" title={t.rename}>
+                  <Pencil className="w-5 h-5" />
+                </button>
+                {confirmDeleteId === doc.id ? (
+                  <button onClick={() => handleDelete(doc.id)} onBlur={() => setConfirmDeleteId(null)} className="px-4 py-3 bg-rose-500 text-white rounded-xl font-black text-sm">
+                    {t.confirmDelete}
+                  </button>
+                ) : (
+                  <button onClick={() => setConfirmDeleteId(doc.id)} className="p-3 bg-slate-50 text-slate-400 hover:text-rose-500 rounded-xl transition-all" title={t.delete}>
+                    <Trash2 className="w-5 h-5" />
+                  </button>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
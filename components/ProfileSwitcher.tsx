@@ -0,0 +1,96 @@
+import React, { useState } from 'react';
+import { UserCircle, Plus, Trash2, Check } from 'lucide-react';
+import { Language, ReaderProfile } from '../types';
+import { TRANSLATIONS } from '../translations';
+
+interface ProfileSwitcherProps {
+  profiles: ReaderProfile[];
+  activeProfileId?: string;
+  language: Language;
+  onSelect: (id?: string) => void;
+  onCreate: (name: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export const ProfileSwitcher: React.FC<ProfileSwitcherProps> = ({
+  profiles,
+  activeProfileId,
+  language,
+  onSelect,
+  onCreate,
+  onDelete
+}) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  const t = TRANSLATIONS[language];
+  const activeProfile = profiles.find(p => p.id === activeProfileId);
+
+  const handleCreate = () => {
+    if (!newName.trim()) return;
+    onCreate(newName);
+    setNewName('');
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="flex items-center gap-2 px-3 py-2 bg-white border border-indigo-100 hover:border-indigo-300 rounded-xl font-bold text-indigo-600 transition-all active:scale-95 shadow-sm"
+      >
+        <UserCircle className="w-5 h-5" />
+        <span className="hidden sm:inline max-w-[8rem] truncate">{activeProfile ? activeProfile.name : t.guest}</span>
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-72 bg-white border-2 border-indigo-50 rounded-3xl shadow-2xl p-4 z-50 animate-in fade-in zoom-in-95 duration-200">
+          <p className="text-[10px] font-black text-indigo-400 uppercase tracking-widest mb-3">{t.readers}</p>
+          <div className="flex flex-col gap-1 mb-4">
+            <button
+              onClick={() => { onSelect(undefined); setIsOpen(false); }}
+              className={`flex items-center justify-between px-4 py-3 rounded-2xl font-bold text-left transition-all ${!activeProfile ? 'bg-indigo-50 text-indigo-700' : 'text-slate-500 hover:bg-slate-50'}`}
+            >
+              <span>{t.guest}</span>
+              {!activeProfile && <Check className="w-4 h-4" />}
+            </button>
+            {profiles.map(profile => (
+              <div key={profile.id} className={`flex items-center rounded-2xl transition-all ${profile.id === activeProfileId ? 'bg-indigo-50' : 'hover:bg-slate-50'}`}>
+                <button
+                  onClick={() => { onSelect(profile.id); setIsOpen(false); }}
+                  className={`flex-1 flex items-center justify-between px-4 py-3 font-bold text-left truncate ${profile.id === activeProfileId ? 'text-indigo-700' : 'text-slate-600'}`}
+                >
+                  <span className="truncate">{profile.name}</span>
+                  {profile.id === activeProfileId && <Check className="w-4 h-4 shrink-0" />}
+                </button>
+                {confirmDeleteId === profile.id ? (
+                  <button onClick={() => { onDelete(profile.id); setConfirmDeleteId(null); }} onBlur={() => setConfirmDeleteId(null)} className="px-3 py-2 mr-1 bg-rose-500 text-white rounded-xl font-black text-xs shrink-0">
+                    {t.confirmDelete}
+                  </button>
+                ) : (
+                  <button onClick={() => setConfirmDeleteId(profile.id)} className="p-2 mr-1 text-slate-300 hover:text-rose-500 transition-colors" title={t.deleteReader}>
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              placeholder={t.readerName}
+              className="flex-1 min-w-0 px-3 py-2 rounded-xl bg-slate-50 border-2 border-indigo-50 focus:border-indigo-200 outline-none font-medium"
+            />
+            <button onClick={handleCreate} disabled={!newName.trim()} className="p-2 bg-indigo-600 text-white rounded-xl disabled:bg-slate-100 disabled:text-slate-300 transition-all" title={t.newReader}>
+              <Plus className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
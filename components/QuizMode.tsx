@@ -0,0 +1,281 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Loader2, Trophy, Volume2, Square, CheckCircle2, XCircle, ArrowRight, RotateCcw, Quote } from 'lucide-react';
+import { Language, QuizAttempt, QuizItem, ReadingLevel, SpeechOptions } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { generateQuiz, generateSpeech, decode, decodeAudioData, getSharedAudioContext } from '../services/geminiService';
+import { loadArtifacts, saveArtifacts } from '../services/libraryStore';
+import { logActivity } from '../services/activityLog';
+import { isContentBlocked } from '../services/moderation';
+import { ContentBlockedNotice } from './ContentSafety';
+
+interface QuizModeProps {
+  text: string;
+  language: Language;
+  documentId?: string;
+  readingLevel?: ReadingLevel;
+  profileId?: string;
+  speechOptions?: SpeechOptions;
+}
+
+// Sequencing events are shown shuffled, never already in order
+const shuffledOrder = (count: number) => {
+  const order = Array.from({ length: count }, (_, i) => i).sort(() => Math.random() - 0.5);
+  return order.every((v, i) => v === i) ? order.reverse() : order;
+};
+
+export const QuizMode: React.FC<QuizModeProps> = ({ text, language, documentId, readingLevel, profileId, speechOptions }) => {
+  const [items, setItems] = useState<QuizItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [blocked, setBlocked] = useState(false);
+  const [current, setCurrent] = useState(0);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [sequence, setSequence] = useState<number[]>([]);
+  const [checked, setChecked] = useState(false);
+  const [results, setResults] = useState<boolean[]>([]);
+  const [finished, setFinished] = useState(false);
+  const [isSpeaking, setIsSpeaking] = useState(false);
+  const attemptsRef = useRef<QuizAttempt[]>([]);
+  const currentSourceRef = useRef<AudioBufferSourceNode | null>(null);
+  // Bumped on stop, so speech that arrives after the child moved on is dropped
+  const speakRequestRef = useRef(0);
+
+  const t = TRANSLATIONS[language];
+  const item = items[current];
+  const displayOrder = useMemo(() => item?.type === 'sequence' ? shuffledOrder(item.options.length) : [], [item]);
+
+  useEffect(() => {
+    const createQuiz = async () => {
+      try {
+        setLoading(true);
+        setBlocked(false);
+        setCurrent(0);
+        setSelected(null);
+        setSequence([]);
+        setChecked(false);
+        setResults([]);
+        setFinished(false);
+        const cached = await loadArtifacts(documentId, language, readingLevel);
+        attemptsRef.current = cached.quizAttempts || [];
+        const quiz = cached.quiz?.length ? cached.quiz : await generateQuiz(text, language);
+        setItems(quiz);
+        if (!cached.quiz?.length && quiz.length) await saveArtifacts(documentId, language, { quiz }, readingLevel);
+      } catch (err) {
+        if (isContentBlocked(err)) setBlocked(true);
+        else console.error(err);
+      } finally { setLoading(false); }
+    };
+    createQuiz();
+    return () => stopAudio();
+  }, [text, language, documentId, readingLevel]);
+
+  const stopAudio = () => {
+    speakRequestRef.current++;
+    if (currentSourceRef.current) { try { currentSourceRef.current.stop(); } catch(e) {} currentSourceRef.current = null; }
+    setIsSpeaking(false);
+  };
+
+  const handleSpeak = async () => {
+    if (isSpeaking) { stopAudio(); return; }
+    const spoken = item.type === 'multiple_choice'
+      ? `${item.question} ${item.options.map((o, i) => `${String.fromCharCode(65 + i)}: ${o}.`).join(' ')}`
+      : item.type === 'sequence'
+        ? `${item.question} ${displayOrder.map(i => item.options[i]).join(' ')}`
+        : item.question;
+    const request = ++speakRequestRef.current;
+    try {
+      const ctx = getSharedAudioContext();
+      if (ctx.state === 'suspended') await ctx.resume();
+      if (request !== speakRequestRef.current) return;
+      setIsSpeaking(true);
+      const buffer = await decodeAudioData(decode(await generateSpeech(spoken, language, speechOptions)), ctx);
+      if (request !== speakRequestRef.current) return;
+      const source = ctx.createBufferSource();
+      source.buffer = buffer;
+      source.connect(ctx.destination);
+      source.onended = () => setIsSpeaking(false);
+      currentSourceRef.current = source;
+      source.start();
+    } catch (err) {
+      console.error(err);
+      if (request === speakRequestRef.current) stopAudio();
+    }
+  };
+
+  const isAnswered = item?.type === 'sequence' ? sequence.length === item.options.length : selected !== null;
+  const isCorrect = item?.type === 'sequence' ? sequence.every((v, i) => v === i) : selected === item?.answer;
+
+  const handleCheck = () => {
+    stopAudio();
+    setChecked(true);
+    setResults(prev => [...prev, isCorrect]);
+  };
+
+  const handleNext = () => {
+    stopAudio();
+    setSelected(null);
+    setSequence([]);
+    setChecked(false);
+    if (current < items.length - 1) { setCurrent(current + 1); return; }
+    const attempt: QuizAttempt = { profileId, correct: results, finishedAt: Date.now() };
+    attemptsRef.current = [...attemptsRef.current, attempt];
+    saveArtifacts(documentId, language, { quizAttempts: attemptsRef.current }, readingLevel);
+    logActivity({ kind: 'quiz_finished', mode: 'QUIZ', score: results.filter(Boolean).length, total: results.length });
+    setFinished(true);
+  };
+
+  const handleRetry = () => {
+    stopAudio();
+    setCurrent(0);
+    setResults([]);
+    setFinished(false);
+  };
+
+  const optionClass = (isChosen: boolean, isRight: boolean) => {
+    if (checked && isRight) return 'border-emerald-400 bg-emerald-50 text-emerald-800';
+    if (checked && isChosen) return 'border-rose-300 bg-rose-50 text-rose-700';
+    if (isChosen) return 'border-amber-400 bg-amber-50 text-amber-800';
+    return 'border-slate-100 bg-white text-slate-700 hover:border-amber-200';
+  };
+
+  if (loading) {
+    return (
+      <div className="flex flex-col items-center justify-center py-20 text-center animate-pulse">
+        <Loader2 className="w-20 h-20 text-amber-500 animate-spin mb-8" />
+        <h3 className="text-3xl font-black text-gray-800 tracking-tight">{t.makingQuiz}</h3>
+      </div>
+    );
+  }
+
+  if (blocked) return <ContentBlockedNotice language={language} />;
+
+  if (items.length === 0) {
+    return <p className="py-20 text-center text-xl font-bold text-slate-400">{t.noQuiz}</p>;
+  }
+
+  if (finished) {
+    const score = results.filter(Boolean).length;
+    return (
+      <div className="max-w-3xl mx-auto py-8 px-4">
+        <div className="text-center mb-10">
+          <div className="w-20 h-20 mx-auto mb-4 bg-amber-100 text-amber-500 rounded-3xl flex items-center justify-center shadow-inner"><Trophy className="w-10 h-10" /></div>
+          <h2 className="text-4xl font-black text-slate-800 tracking-tight mb-2">{t.quizResults}</h2>
+          <p className="text-2xl font-black text-amber-500">{t.quizScore.replace('{score}', score).replace('{total}', items.length)}</p>
+        </div>
+        <div className="bg-white border-2 border-amber-50 rounded-[2.5rem] shadow-sm divide-y divide-slate-50 overflow-hidden">
+          {items.map((quizItem, idx) => (
+            <div key={idx} className="flex items-start gap-4 p-5">
+              {results[idx] ? <CheckCircle2 className="w-6 h-6 text-emerald-500 shrink-0" /> : <XCircle className="w-6 h-6 text-rose-400 shrink-0" />}
+              <div>
+                <p className="font-bold text-slate-700">{quizItem.question}</p>
+                <p className="text-sm text-slate-400 italic mt-1">{quizItem.passage}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+        <button onClick={handleRetry} className="mt-10 mx-auto flex items-center gap-3 px-10 py-4 bg-amber-500 text-white rounded-full font-black text-lg shadow-lg shadow-amber-200 active:scale-95 transition-all">
+          <RotateCcw className="w-5 h-5" /> {t.tryAgain}
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="max-w-3xl mx-auto py-8 px-4">
+      <div className="flex items-center justify-between gap-4 p-6 mb-8 bg-white border-2 border-amber-100 rounded-3xl shadow-sm">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-amber-100 text-amber-500 rounded-2xl flex items-center justify-center shadow-inner"><Trophy className="w-6 h-6" /></div>
+          <div>
+            <h2 className="text-2xl font-black text-gray-800 tracking-tight">{t.quizTitle}</h2>
+            <p className="text-amber-500 font-bold uppercase tracking-[0.1em] text-[10px]">{t.questionOf.replace('{done}', current + 1).replace('{total}', items.length)}</p>
+          </div>
+        </div>
+        <div className="flex gap-1.5">
+          {items.map((_, idx) => (
+            <span key={idx} className={`w-3 h-3 rounded-full ${idx < results.length ? (results[idx] ? 'bg-emerald-400' : 'bg-rose-300') : idx === current ? 'bg-amber-400' : 'bg-slate-200'}`} />
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-white border-2 border-amber-50 rounded-[2.5rem] p-6 md:p-10 shadow-sm">
+        <div className="flex items-start gap-4 mb-8">
+          <p className="flex-1 text-2xl font-black text-slate-800 leading-snug">{item.question}</p>
+          <button onClick={handleSpeak} className={`w-14 h-14 shrink-0 rounded-2xl flex items-center justify-center transition-all ${isSpeaking ? 'bg-rose-500 text-white' : 'bg-amber-50 text-amber-600 hover:bg-amber-100'}`}>
+            {isSpeaking ? <Square className="w-6 h-6 fill-current" /> : <Volume2 className="w-7 h-7" />}
+          </button>
+        </div>
+
+        {item.type === 'multiple_choice' && (
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {item.options.map((option, idx) => (
+              <button key={idx} disabled={checked} onClick={() => setSelected(idx)} className={`p-5 rounded-2xl border-4 text-left text-lg font-bold transition-all ${optionClass(selected === idx, idx === item.answer)}`}>
+                <span className="mr-2 opacity-50">{String.fromCharCode(65 + idx)}</span> {option}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {item.type === 'true_false' && (
+          <div className="grid grid-cols-2 gap-3">
+            {[t.trueLabel, t.falseLabel].map((label, idx) => (
+              <button key={idx} disabled={checked} onClick={() => setSelected(idx)} className={`p-6 rounded-2xl border-4 text-xl font-black transition-all ${optionClass(selected === idx, idx === item.answer)}`}>
+                {label}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {item.type === 'sequence' && (
+          <div className="flex flex-col gap-3">
+            <p className="text-sm font-black uppercase tracking-widest text-slate-400">{t.sequenceHint}</p>
+            {displayOrder.map(eventIdx => {
+              const position = sequence.indexOf(eventIdx);
+              const isPlaced = position >= 0;
+              const isRight = checked && position === eventIdx;
+              return (
+                <button
+                  key={eventIdx}
+                  disabled={checked || isPlaced}
+                  onClick={() => setSequence(prev => [...prev, eventIdx])}
+                  className={`flex items-center gap-4 p-4 rounded-2xl border-4 text-left font-bold transition-all ${checked ? (isRight ? 'border-emerald-400 bg-emerald-50 text-emerald-800' : 'border-rose-300 bg-rose-50 text-rose-700') : isPlaced ? 'border-amber-400 bg-amber-50 text-amber-800' : 'border-slate-100 bg-white text-slate-700 hover:border-amber-200'}`}
+                >
+                  <span className={`w-9 h-9 shrink-0 rounded-xl flex items-center justify-center font-black ${isPlaced ? 'bg-amber-400 text-white' : 'bg-slate-100 text-slate-300'}`}>{isPlaced ? position + 1 : '?'}</span>
+                  {item.options[eventIdx]}
+                </button>
+              );
+            })}
+            {!checked && sequence.length > 0 && (
+              <button onClick={() => setSequence([])} className="self-start flex items-center gap-2 px-4 py-2 text-sm text-slate-400 hover:text-amber-600 font-bold transition-all">
+                <RotateCcw className="w-4 h-4" /> {t.sequenceReset}
+              </button>
+            )}
+          </div>
+        )}
+
+        {checked && (
+          <div className={`mt-8 p-6 rounded-3xl ${isCorrect ? 'bg-emerald-50' : 'bg-rose-50'}`}>
+            <p className={`flex items-center gap-2 text-xl font-black mb-2 ${isCorrect ? 'text-emerald-700' : 'text-rose-600'}`}>
+              {isCorrect ? <CheckCircle2 className="w-6 h-6" /> : <XCircle className="w-6 h-6" />} {isCorrect ? t.rightAnswer : t.wrongAnswer}
+            </p>
+            <p className="text-slate-700 font-medium leading-relaxed mb-4">{item.explanation}</p>
+            <p className="flex gap-2 text-slate-500 italic leading-relaxed">
+              <Quote className="w-4 h-4 shrink-0 mt-1 text-slate-300" />
+              <span><span className="not-italic font-black text-[10px] uppercase tracking-widest text-slate-400 block">{t.theTextSays}</span>{item.passage}</span>
+            </p>
+          </div>
+        )}
+
+        <div className="mt-8 flex justify-end">
+          {checked ? (
+            <button onClick={handleNext} className="flex items-center gap-3 px-10 py-4 bg-amber-500 text-white rounded-full font-black text-lg shadow-lg shadow-amber-200 active:scale-95 transition-all">
+              {current < items.length - 1 ? t.next : t.seeResults} <ArrowRight className="w-5 h-5" />
+            </button>
+          ) : (
+            <button onClick={handleCheck} disabled={!isAnswered} className="px-10 py-4 bg-amber-500 text-white rounded-full font-black text-lg shadow-lg shadow-amber-200 active:scale-95 transition-all disabled:bg-slate-100 disabled:text-slate-300 disabled:shadow-none">
+              {t.checkAnswer}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,84 @@
+import React, { useEffect, useRef } from 'react';
+import { GripVertical } from 'lucide-react';
+import { ReadingRulerSettings } from '../types';
+import { RULER_COLORS } from '../constants';
+
+interface ReadingRulerProps {
+  ruler: ReadingRulerSettings;
+  // Offset of the ruler from the top of the text block, in pixels
+  top: number;
+  lineHeight: number;
+  // Theme background class, used to dim the text outside the mask window
+  maskClass: string;
+  onMove: (top: number) => void;
+}
+
+// Sits over the text block (which must be `relative`). The band is drawn
+// behind the text so letters keep their theme colour; the mask is drawn on top.
+export const ReadingRuler: React.FC<ReadingRulerProps> = ({ ruler, top, lineHeight, maskClass, onMove }) => {
+  const windowRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ startY: number; startTop: number } | null>(null);
+
+  const height = ruler.lines * lineHeight;
+  const color = RULER_COLORS[ruler.color];
+
+  const moveTo = (next: number) => {
+    const blockHeight = windowRef.current?.parentElement?.clientHeight || 0;
+    onMove(Math.max(0, Math.min(next, blockHeight - height)));
+  };
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+      if ((e.target as HTMLElement).closest('input, textarea, select')) return;
+      e.preventDefault();
+      moveTo(top + (e.key === 'ArrowDown' ? lineHeight : -lineHeight));
+      windowRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [top, lineHeight, height]);
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { startY: e.clientY, startTop: top };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (!dragRef.current) return;
+    moveTo(dragRef.current.startTop + e.clientY - dragRef.current.startY);
+  };
+
+  const handlePointerUp = () => { dragRef.current = null; };
+
+  return (
+    <>
+      {ruler.mode === 'mask' && (
+        <>
+          <div className={`absolute inset-x-0 top-0 z-20 pointer-events-none transition-[height] duration-200 ${maskClass}`} style={{ height: top, opacity: ruler.opacity }} />
+          <div className={`absolute inset-x-0 bottom-0 z-20 pointer-events-none transition-[top] duration-200 ${maskClass}`} style={{ top: top + height, opacity: ruler.opacity }} />
+        </>
+      )}
+      <div
+        ref={windowRef}
+        className="absolute -inset-x-3 z-0 rounded-xl pointer-events-none transition-[top] duration-200"
+        style={{
+          top,
+          height,
+          backgroundColor: ruler.mode === 'band' ? `rgba(${color}, ${ruler.opacity})` : undefined,
+          boxShadow: ruler.mode === 'mask' ? `0 0 0 3px rgba(${color}, 0.9)` : undefined
+        }}
+      />
+      <div
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerCancel={handlePointerUp}
+        className="absolute -right-4 md:-right-14 z-30 w-8 h-12 flex items-center justify-center rounded-full shadow-md cursor-grab active:cursor-grabbing touch-none transition-[top] duration-200"
+        style={{ top: top + height / 2 - 24, backgroundColor: `rgb(${color})` }}
+      >
+        <GripVertical className="w-5 h-5 text-slate-800" />
+      </div>
+    </>
+  );
+};
@@ -0,0 +1,246 @@
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { FileCheck, Eraser, Merge, ArrowRight, AlertTriangle, CheckCircle2, ChevronLeft, ChevronRight, RefreshCw, Loader2 } from 'lucide-react';
+import { DocumentPage, ExtractionDraft, Language, ReviewPage } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { findSuspiciousSegments, findRepeatedEdgeLines, removeEdgeLines } from '../services/textQuality';
+import { extractPdfPageText, joinPages } from '../services/pdfExtractor';
+
+// Long books would otherwise open one PDF viewer per page at once
+const PAGES_PER_SCREEN = 5;
+
+interface ReviewModuleProps {
+  draft: ExtractionDraft;
+  language: Language;
+  onConfirm: (text: string, fileName: string, pages?: DocumentPage[]) => void;
+}
+
+interface ReviewPageCardProps {
+  page: ReviewPage;
+  language: Language;
+  showNumber: boolean;
+  canMerge: boolean;
+  textareaRef: (el: HTMLTextAreaElement | null) => void;
+  onChange: (text: string) => void;
+  onMerge: () => void;
+  onSelectSegment: (start: number, end: number) => void;
+  // Transcribes the page again; only for a page with a single PDF source
+  onRetry?: () => Promise<void>;
+}
+
+const ReviewPageCard: React.FC<ReviewPageCardProps> = ({ page, language, showNumber, canMerge, textareaRef, onChange, onMerge, onSelectSegment, onRetry }) => {
+  const [isRetrying, setIsRetrying] = useState(false);
+  const t = TRANSLATIONS[language];
+  // Only the page being typed in is analysed again
+  const suspicious = useMemo(() => findSuspiciousSegments(page.text, language), [page.text, language]);
+
+  const handleRetry = async () => {
+    if (!onRetry) return;
+    setIsRetrying(true);
+    try { await onRetry(); } finally { setIsRetrying(false); }
+  };
+
+  return (
+    <div className="bg-white border-2 border-indigo-50 rounded-[2.5rem] p-6 shadow-sm">
+      {showNumber && (
+        <p className="text-xs font-black text-indigo-400 uppercase tracking-widest mb-4">{t.page} {page.number}</p>
+      )}
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-3">
+          {page.sources.map((source, sIdx) => (
+            source.type === 'image' ? (
+              <img key={sIdx} src={source.url} alt={`${t.page} ${page.number}`} className="w-full rounded-2xl border border-slate-100 object-contain max-h-[70vh] bg-slate-50" />
+            ) : (
+              <iframe key={sIdx} src={`${source.url}#toolbar=0&view=FitH`} title={`${t.page} ${page.number}`} className="w-full h-[60vh] rounded-2xl border border-slate-100 bg-slate-50" />
+            )
+          ))}
+        </div>
+        <div className="flex flex-col gap-3">
+          {page.failed && !page.text.trim() && (
+            <div className="p-4 bg-rose-50 border-2 border-rose-100 rounded-2xl">
+              <p className="flex items-center gap-2 text-sm font-bold text-rose-700">
+                <AlertTriangle className="w-4 h-4 shrink-0" /> {t.pageFailed}
+              </p>
+              {onRetry && (
+                <button onClick={handleRetry} disabled={isRetrying} className="mt-3 flex items-center gap-2 px-4 py-2 bg-white border border-rose-200 text-rose-700 rounded-full text-sm font-bold hover:bg-rose-100 transition-all disabled:opacity-60">
+                  {isRetrying ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />} {t.readPageAgain}
+                </button>
+              )}
+            </div>
+          )}
+          <textarea
+            ref={textareaRef}
+            value={page.text}
+            onChange={(e) => onChange(e.target.value)}
+            className="w-full min-h-[40vh] flex-1 p-5 rounded-2xl bg-slate-50 border-2 border-indigo-50 focus:border-indigo-200 focus:bg-white outline-none transition-all text-lg font-medium leading-relaxed resize-y custom-scrollbar"
+          />
+          {suspicious.length > 0 ? (
+            <div className="p-4 bg-amber-50 border-2 border-amber-100 rounded-2xl">
+              <p className="flex items-center gap-2 text-sm font-black text-amber-700 uppercase tracking-widest mb-3">
+                <AlertTriangle className="w-4 h-4" /> {t.suspiciousWords}
+              </p>
+              <div className="flex flex-wrap gap-2">
+                {suspicious.map((segment, segIdx) => (
+                  <button
+                    key={segIdx}
+                    onClick={() => onSelectSegment(segment.start, segment.end)}
+                    className="px-3 py-1 bg-white border border-amber-200 text-amber-800 rounded-full text-sm font-bold hover:bg-amber-100 transition-all"
+                  >
+                    {segment.text}
+                  </button>
+                ))}
+              </div>
+            </div>
+          ) : (
+            <p className="flex items-center gap-2 text-sm font-bold text-emerald-600">
+              <CheckCircle2 className="w-4 h-4" /> {t.noIssues}
+            </p>
+          )}
+        </div>
+      </div>
+      {canMerge && (
+        <button
+          onClick={onMerge}
+          className="mt-6 flex items-center gap-2 px-5 py-2 mx-auto text-sm text-slate-400 hover:text-indigo-600 border border-slate-200 hover:border-indigo-200 rounded-full font-bold transition-all"
+        >
+          <Merge className="w-4 h-4" /> {t.mergeWithNext}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export const ReviewModule: React.FC<ReviewModuleProps> = ({ draft, language, onConfirm }) => {
+  const [pages, setPages] = useState<ReviewPage[]>(draft.pages);
+  const [screen, setScreen] = useState(0);
+  const textareaRefs = useRef<(HTMLTextAreaElement | null)[]>([]);
+
+  const t = TRANSLATIONS[language];
+
+  // Object URLs for the previews live as long as the review screen
+  useEffect(() => () => {
+    draft.pages.forEach(p => p.sources.forEach(s => URL.revokeObjectURL(s.url)));
+  }, [draft]);
+
+  const repeatedLines = useMemo(() => findRepeatedEdgeLines(pages.map(p => p.text)), [pages]);
+  const removableCount = useMemo(
+    () => pages.filter(p => removeEdgeLines(p.text, repeatedLines) !== p.text.trim()).length,
+    [pages, repeatedLines]
+  );
+
+  const screens = Math.ceil(pages.length / PAGES_PER_SCREEN);
+  // Merging pages can leave fewer screens than the one being shown
+  const currentScreen = Math.min(screen, Math.max(0, screens - 1));
+  const firstIdx = currentScreen * PAGES_PER_SCREEN;
+
+  const openScreen = (next: number) => {
+    setScreen(next);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const updatePageText = (idx: number, text: string) => {
+    setPages(prev => prev.map((p, i) => i === idx ? { ...p, text } : p));
+  };
+
+  const handleRemoveHeaders = () => {
+    setPages(prev => prev.map(p => ({ ...p, text: removeEdgeLines(p.text, repeatedLines) })));
+  };
+
+  const handleMergeWithNext = (idx: number) => {
+    setPages(prev => {
+      const merged = {
+        number: prev[idx].number,
+        text: `${prev[idx].text.trim()}\n${prev[idx + 1].text.trim()}`,
+        sources: [...prev[idx].sources, ...prev[idx + 1].sources]
+      };
+      return [...prev.slice(0, idx), merged, ...prev.slice(idx + 2)];
+    });
+  };
+
+  const handleRetryPage = async (page: ReviewPage) => {
+    try {
+      const bytes = new Uint8Array(await (await fetch(page.sources[0].url)).arrayBuffer());
+      const { text, failed } = await extractPdfPageText(bytes, page.number, language);
+      setPages(prev => prev.map(p => p === page ? { ...p, text: text.trim(), failed } : p));
+    } catch (err) {
+      console.error(`Fallo al extraer la página ${page.number}:`, err);
+    }
+  };
+
+  const selectSegment = (pageIdx: number, start: number, end: number) => {
+    const textarea = textareaRefs.current[pageIdx];
+    if (!textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(start, end);
+  };
+
+  const handleConfirm = () => {
+    const { text, pages: pageIndex } = joinPages(pages.filter(p => p.text.trim()));
+    onConfirm(text, draft.fileName, pageIndex.length > 1 ? pageIndex : undefined);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="text-center mb-10">
+        <div className="w-16 h-16 mx-auto mb-4 bg-indigo-100 text-indigo-600 rounded-2xl flex items-center justify-center shadow-inner">
+          <FileCheck className="w-8 h-8" />
+        </div>
+        <h2 className="text-4xl font-black text-slate-800 tracking-tight mb-3">{t.reviewTitle}</h2>
+        <p className="text-slate-500 text-lg max-w-2xl mx-auto">{t.reviewSubtitle}</p>
+      </div>
+
+      <div className="sticky top-24 z-40 mb-8 p-4 bg-white/90 backdrop-blur-md border-2 border-indigo-50 rounded-3xl shadow-sm flex flex-col sm:flex-row items-center justify-between gap-4">
+        <button
+          onClick={handleRemoveHeaders}
+          disabled={removableCount === 0}
+          className="flex items-center gap-2 px-5 py-3 bg-slate-50 text-slate-600 hover:text-indigo-600 rounded-full font-bold transition-all disabled:opacity-40"
+        >
+          <Eraser className="w-5 h-5" /> {t.removeHeaders} {removableCount > 0 && `(${removableCount})`}
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={pages.every(p => p.text.trim().length < 5)}
+          className="flex items-center gap-3 px-10 py-4 bg-indigo-600 text-white rounded-full font-black text-lg shadow-lg shadow-indigo-200 active:scale-95 transition-all disabled:bg-slate-100 disabled:text-slate-300 disabled:shadow-none"
+        >
+          {t.continueReview} <ArrowRight className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-8">
+        {pages.slice(firstIdx, firstIdx + PAGES_PER_SCREEN).map((page, i) => {
+          const idx = firstIdx + i;
+          return (
+            <ReviewPageCard
+              key={`${page.number}-${idx}`}
+              page={page}
+              language={language}
+              showNumber={pages.length > 1}
+              canMerge={idx < pages.length - 1}
+              textareaRef={el => { textareaRefs.current[idx] = el; }}
+              onChange={text => updatePageText(idx, text)}
+              onMerge={() => handleMergeWithNext(idx)}
+              onSelectSegment={(start, end) => selectSegment(idx, start, end)}
+              onRetry={page.sources.length === 1 && page.sources[0].type === 'pdf' ? () => handleRetryPage(page) : undefined}
+            />
+          );
+        })}
+      </div>
+
+      {screens > 1 && (
+        <div className="mt-8 flex items-center gap-3 p-3 bg-white border-2 border-indigo-50 rounded-3xl shadow-sm">
+          <button onClick={() => openScreen(currentScreen - 1)} disabled={currentScreen === 0} aria-label={t.previousPages} className="w-12 h-12 shrink-0 rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center transition-all hover:bg-indigo-100 disabled:opacity-30">
+            <ChevronLeft className="w-6 h-6" />
+          </button>
+          <p className="flex-1 text-center text-sm font-black text-slate-500">
+            {t.pagesOf
+              .replace('{from}', String(firstIdx + 1))
+              .replace('{to}', String(Math.min(firstIdx + PAGES_PER_SCREEN, pages.length)))
+              .replace('{total}', String(pages.length))}
+          </p>
+          <button onClick={() => openScreen(currentScreen + 1)} disabled={currentScreen === screens - 1} aria-label={t.nextPages} className="w-12 h-12 shrink-0 rounded-2xl bg-indigo-50 text-indigo-600 flex items-center justify-center transition-all hover:bg-indigo-100 disabled:opacity-30">
+            <ChevronRight className="w-6 h-6" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Wand2, BookOpen, HelpCircle, Image as ImageIcon } from 'lucide-react';
+import { AlignedSentence, AppMode, Language, ReadingLevel } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { simplifyText } from '../services/geminiService';
+import { loadArtifacts, saveSimplified } from '../services/libraryStore';
+import { isContentBlocked } from '../services/moderation';
+import { ContentBlockedNotice } from './ContentSafety';
+
+interface SimplifyModeProps {
+  text: string;
+  language: Language;
+  documentId?: string;
+  initialLevel?: ReadingLevel;
+  onUseSimplified: (level: ReadingLevel, simplifiedText: string, mode: AppMode) => void;
+}
+
+const LEVELS: ReadingLevel[] = ['easy', 'grade2', 'grade4'];
+
+const HANDOFF_MODES: { mode: AppMode; icon: React.ReactNode }[] = [
+  { mode: 'READER', icon: <BookOpen className="w-5 h-5" /> },
+  { mode: 'COMIC', icon: <ImageIcon className="w-5 h-5" /> },
+  { mode: 'EXPLAIN', icon: <HelpCircle className="w-5 h-5" /> }
+];
+
+export const SimplifyMode: React.FC<SimplifyModeProps> = ({ text, language, documentId, initialLevel, onUseSimplified }) => {
+  const [level, setLevel] = useState<ReadingLevel>(initialLevel || 'easy');
+  const [results, setResults] = useState<Partial<Record<ReadingLevel, AlignedSentence[]>>>({});
+  const [hoveredIdx, setHoveredIdx] = useState<number | null>(null);
+  const [blocked, setBlocked] = useState(false);
+
+  const t = TRANSLATIONS[language];
+  const sentences = results[level];
+
+  useEffect(() => { setResults({}); }, [text, language]);
+
+  useEffect(() => {
+    if (results[level]) return;
+    let cancelled = false;
+    setBlocked(false);
+    const rewrite = async () => {
+      try {
+        const cached = (await loadArtifacts(documentId, language)).simplified?.[level];
+        const aligned = cached || await simplifyText(text, level, language);
+        if (cancelled) return;
+        setResults(prev => ({ ...prev, [level]: aligned }));
+        if (!cached) await saveSimplified(documentId, language, level, aligned);
+      } catch (err) {
+        if (isContentBlocked(err)) { if (!cancelled) setBlocked(true); }
+        else console.error(err);
+      }
+    };
+    rewrite();
+    return () => { cancelled = true; };
+  }, [level, results, text, language, documentId]);
+
+  const handleUse = (mode: AppMode) => {
+    if (!sentences) return;
+    onUseSimplified(level, sentences.map(s => s.simplified).join(' '), mode);
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto py-8 px-4">
+      <div className="flex flex-col md:flex-row items-center justify-between gap-6 p-6 mb-8 bg-white border-2 border-emerald-100 rounded-3xl shadow-sm">
+        <div className="flex items-center gap-4">
+          <div className="w-12 h-12 bg-emerald-100 text-emerald-600 rounded-2xl flex items-center justify-center shadow-inner"><Wand2 className="w-6 h-6" /></div>
+          <div>
+            <h2 className="text-2xl font-black text-gray-800 tracking-tight">{t.simplifyTitle}</h2>
+            <p className="text-emerald-500 font-bold uppercase tracking-[0.1em] text-[10px]">{t.simplifySubtitle}</p>
+          </div>
+        </div>
+        <div className="flex items-center bg-gray-50 p-1.5 rounded-2xl gap-1 border border-gray-100">
+          {LEVELS.map(l => (
+            <button key={l} onClick={() => setLevel(l)} className={`px-4 py-2 text-sm font-black rounded-xl transition-all ${level === l ? 'bg-emerald-600 text-white shadow-md' : 'text-gray-400 hover:text-emerald-600'}`}>
+              {t.readingLevels[l]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {blocked ? (
+        <ContentBlockedNotice language={language} />
+      ) : !sentences ? (
+        <div className="flex flex-col items-center justify-center py-20 text-center">
+          <Loader2 className="w-16 h-16 text-emerald-500 animate-spin mb-6" />
+          <p className="text-2xl font-black text-gray-800 tracking-tight">{t.simplifying}</p>
+        </div>
+      ) : (
+        <>
+          <div className="hidden md:grid grid-cols-2 gap-6 px-6 mb-3 text-xs font-black uppercase tracking-widest text-slate-400">
+            <span>{t.originalText}</span>
+            <span className="text-emerald-500">{t.simplifiedText}</span>
+          </div>
+          <div className="bg-white border-2 border-emerald-50 rounded-[2.5rem] shadow-sm overflow-hidden divide-y divide-slate-50">
+            {sentences.map((s, idx) => (
+              <div
+                key={idx}
+                onMouseEnter={() => setHoveredIdx(idx)}
+                onMouseLeave={() => setHoveredIdx(null)}
+                className={`grid grid-cols-1 md:grid-cols-2 gap-2 md:gap-6 p-5 transition-colors ${hoveredIdx === idx ? 'bg-emerald-50/50' : ''}`}
+              >
+                <p className="text-base text-slate-400 font-medium leading-relaxed">{s.original}</p>
+                <p className="text-lg text-slate-800 font-bold leading-relaxed">{s.simplified}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="mt-10 flex flex-col sm:flex-row items-center justify-center gap-3">
+            <span className="text-sm font-black uppercase tracking-widest text-slate-400">{t.useSimplifiedIn}</span>
+            {HANDOFF_MODES.map(({ mode, icon }) => (
+              <button key={mode} onClick={() => handleUse(mode)} className="flex items-center gap-2 px-6 py-3 bg-emerald-600 text-white rounded-full font-black shadow-md active:scale-95 transition-all">
+                {icon} {t.modeNames[mode]}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -1,20 +1,26 @@
 import React, { useRef, useState } from 'react';
-import { Upload, Loader2, AlertCircle, BookOpen, X, ShieldCheck, Lock } from 'lucide-react';
+import { Upload, Loader2, AlertCircle, BookOpen, X, ShieldCheck, Lock, ClipboardPaste, ArrowRight } from 'lucide-react';
 import { extractTextFromMedia } from '../services/geminiService';
-import { Language } from '../types';
+import { isLocalTextFile, parseTextFile } from '../services/documentParser';
+import { extractPdfPages } from '../services/pdfExtractor';
+import { DocumentPage, ExtractionDraft, Language } from '../types';
 import { TRANSLATIONS } from '../translations';
 
 interface UploadModuleProps {
-  onTextExtracted: (text: string, fileName: string) => void;
+  onTextExtracted: (text: string, fileName: string, pages?: DocumentPage[]) => void;
+  // Transcriptions made by the AI go through a review step first
+  onReviewRequested: (draft: ExtractionDraft) => void;
   language: Language;
 }
 
-export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, language }) => {
+export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, onReviewRequested, language }) => {
   const [isUploading, setIsUploading] = useState(false);
   const [loadingPhase, setLoadingPhase] = useState("");
   const [error, setError] = useState<string | null>(null);
   const [acceptedTerms, setAcceptedTerms] = useState(false);
   const [showLegal, setShowLegal] = useState(false);
+  const [pastedText, setPastedText] = useState('');
+  const [pageProgress, setPageProgress] = useState<{ done: number; total: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const t = TRANSLATIONS[language];
@@ -28,6 +34,41 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
     setError(null);
     setLoadingPhase(t.readingFile);
 
+    if (isLocalTextFile(file)) {
+      try {
+        const text = await parseTextFile(file);
+        if (text.length < 5) throw new Error("Empty file.");
+        onTextExtracted(text, file.name);
+      } catch (err) {
+        setError(t.errorReadFile);
+        setIsUploading(false);
+      }
+      return;
+    }
+
+    if (file.type === 'application/pdf' || file.name.toLowerCase().endsWith('.pdf')) {
+      try {
+        const data = await file.arrayBuffer();
+        setLoadingPhase(t.extracting);
+        const pages = await extractPdfPages(data, language, (done, total) => setPageProgress({ done, total }));
+        if (pages.every(p => p.text.trim().length < 5)) throw new Error("Text extraction failed.");
+        onReviewRequested({
+          fileName: file.name,
+          pages: pages.map(p => ({
+            number: p.number,
+            text: p.text.trim(),
+            sources: [{ url: URL.createObjectURL(new Blob([p.source], { type: 'application/pdf' })), type: 'pdf' }],
+            failed: p.failed
+          }))
+        });
+      } catch (err) {
+        setError(t.errorOverload);
+        setIsUploading(false);
+        setPageProgress(null);
+      }
+      return;
+    }
+
     try {
       const reader = new FileReader();
       reader.onload = async (event) => {
@@ -45,7 +86,10 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
             throw new Error("Text extraction failed.");
           }
           
-          onTextExtracted(extractedText, file.name);
+          onReviewRequested({
+            fileName: file.name,
+            pages: [{ number: 1, text: extractedText.trim(), sources: [{ url: URL.createObjectURL(file), type: 'image' }] }]
+          });
         } catch (innerErr: any) {
           setError(t.errorOverload);
           setIsUploading(false);
@@ -58,6 +102,11 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
     }
   };
 
+  const handleUsePastedText = () => {
+    if (!acceptedTerms || pastedText.trim().length < 5) return;
+    onTextExtracted(pastedText.trim(), t.pastedTextName);
+  };
+
   return (
     <div className="max-w-2xl mx-auto py-12 px-4 animate-in fade-in duration-700">
       <div className="text-center mb-10">
@@ -97,7 +146,7 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
           type="file" 
           ref={fileInputRef}
           onChange={handleFileChange}
-          accept=".pdf,image/*"
+          accept=".pdf,image/*,.txt,.md,.docx,.epub"
           className={`absolute inset-0 w-full h-full opacity-0 ${acceptedTerms ? 'cursor-pointer' : 'cursor-not-allowed'}`}
           disabled={isUploading || !acceptedTerms}
         />
@@ -110,6 +159,16 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
                 <BookOpen className="w-10 h-10 text-indigo-400 absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 animate-pulse" />
               </div>
               <p className="text-3xl font-black text-indigo-600 mb-3 tracking-tighter">{loadingPhase}</p>
+              {pageProgress && pageProgress.total > 0 && (
+                <div className="w-full max-w-xs">
+                  <p className="text-lg font-bold text-indigo-400 mb-3">
+                    {t.pageProgress.replace('{done}', String(pageProgress.done)).replace('{total}', String(pageProgress.total))}
+                  </p>
+                  <div className="h-3 bg-indigo-100 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 rounded-full transition-all duration-500" style={{ width: `${(pageProgress.done / pageProgress.total) * 100}%` }} />
+                  </div>
+                </div>
+              )}
             </>
           ) : (
             <>
@@ -125,6 +184,27 @@ export const UploadModule: React.FC<UploadModuleProps> = ({ onTextExtracted, lan
         </div>
       </div>
 
+      <div className={`mt-8 p-6 bg-white border-2 border-indigo-50 rounded-[2.5rem] shadow-sm transition-all ${!acceptedTerms || isUploading ? 'opacity-40 grayscale' : ''}`}>
+        <div className="flex items-center gap-2 mb-4 text-indigo-600 font-black uppercase text-sm tracking-widest">
+          <ClipboardPaste className="w-5 h-5" /> {t.pasteTitle}
+        </div>
+        <textarea
+          value={pastedText}
+          onChange={(e) => setPastedText(e.target.value)}
+          disabled={!acceptedTerms || isUploading}
+          placeholder={t.pastePlaceholder}
+          rows={5}
+          className="w-full p-4 rounded-2xl bg-slate-50 border-2 border-indigo-50 focus:border-indigo-200 focus:bg-white outline-none transition-all text-base font-medium resize-y custom-scrollbar"
+        />
+        <button
+          onClick={handleUsePastedText}
+          disabled={!acceptedTerms || isUploading || pastedText.trim().length < 5}
+          className="mt-4 ml-auto flex items-center gap-2 px-8 py-3 bg-indigo-600 text-white rounded-full font-black shadow-md active:scale-95 transition-all disabled:bg-slate-100 disabled:text-slate-300 disabled:shadow-none"
+        >
+          {t.usePastedText} <ArrowRight className="w-5 h-5" />
+        </button>
+      </div>
+
       {showLegal && (
         <div className="fixed inset-0 z-[100] bg-slate-900/60 backdrop-blur-md flex items-center justify-center p-4 sm:p-8">
           <div className="bg-white w-full max-w-3xl max-h-[85vh] rounded-[3rem] shadow-2xl overflow-hidden flex flex-col animate-in zoom-in-95 duration-300">
@@ -1,5 +1,4 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GoogleGenAI } from '@google/genai';
 import { 
   Video, 
   Loader2, 
@@ -8,17 +7,20 @@ import {
   Pause, 
   AlertCircle
 } from 'lucide-react';
-import { generateVideoPrompt, generateSpeech, decode, decodeAudioData } from '../services/geminiService';
-import { Language } from '../types';
+import { generateVideoPrompt, generateSpeech, generateVideo, ensureVideoAccess, decode, decodeAudioData } from '../services/geminiService';
+import { isContentBlocked } from '../services/moderation';
+import { Language, SpeechOptions } from '../types';
 import { TRANSLATIONS } from '../translations';
+import { ContentBlockedNotice } from './ContentSafety';
 
 interface VideoNarradoProps {
   text: string;
   language: Language;
+  speechOptions?: SpeechOptions;
 }
 
-export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language }) => {
-  const [status, setStatus] = useState<'IDLE' | 'CHECKING_KEY' | 'PROMPTING' | 'GENERATING' | 'READY' | 'ERROR'>('IDLE');
+export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language, speechOptions }) => {
+  const [status, setStatus] = useState<'IDLE' | 'CHECKING_KEY' | 'PROMPTING' | 'GENERATING' | 'READY' | 'BLOCKED' | 'ERROR'>('IDLE');
   const [videoUrl, setVideoUrl] = useState<string | null>(null);
   const [audioBuffer, setAudioBuffer] = useState<AudioBuffer | null>(null);
   const [errorMessage, setErrorMessage] = useState<string | null>(null);
@@ -35,10 +37,7 @@ export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language }) =>
     setStatus('CHECKING_KEY');
     setGenerationPhase("...");
     try {
-      const hasKey = await (window as any).aistudio.hasSelectedApiKey();
-      if (!hasKey) {
-        await (window as any).aistudio.openSelectKey();
-      }
+      await ensureVideoAccess();
       generateMagic();
     } catch (err) {
       setStatus('ERROR');
@@ -54,29 +53,8 @@ export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language }) =>
       setStatus('GENERATING');
       setGenerationPhase(t.drawingComic);
 
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const audioTask = generateSpeech(text.substring(0, 500), language);
-
-      let operation = await ai.models.generateVideos({
-        model: 'veo-3.1-fast-generate-preview',
-        prompt: prompt,
-        config: {
-          numberOfVideos: 1,
-          resolution: '720p',
-          aspectRatio: '16:9'
-        }
-      });
-
-      while (!operation.done) {
-        await new Promise(resolve => setTimeout(resolve, 8000));
-        operation = await ai.operations.getVideosOperation({ operation });
-      }
-
-      const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
-      if (!downloadLink) throw new Error("Video fail");
-
-      const videoRes = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
-      const vUrl = URL.createObjectURL(await videoRes.blob());
+      const audioTask = generateSpeech(text.substring(0, 500), language, speechOptions);
+      const vUrl = await generateVideo(prompt);
       const base64Audio = await audioTask;
       
       if (!audioContextRef.current) {
@@ -88,6 +66,7 @@ export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language }) =>
       setAudioBuffer(aBuffer);
       setStatus('READY');
     } catch (err: any) {
+      if (isContentBlocked(err)) { setStatus('BLOCKED'); return; }
       setStatus('ERROR');
       setErrorMessage(err.message || "Error.");
     }
@@ -127,6 +106,8 @@ export const VideoNarrado: React.FC<VideoNarradoProps> = ({ text, language }) =>
     );
   }
 
+  if (status === 'BLOCKED') return <ContentBlockedNotice language={language} />;
+
   if (status === 'READY' && videoUrl) {
     return (
       <div className="max-w-4xl mx-auto py-10">
@@ -0,0 +1,111 @@
+import React, { useState, useEffect } from 'react';
+import { Loader2, Volume2, Image as ImageIcon, X } from 'lucide-react';
+import { Language, WordDefinition } from '../types';
+import { TRANSLATIONS } from '../translations';
+import { defineWord, generateSceneImage } from '../services/geminiService';
+import { isContentBlocked, isRedacted } from '../services/moderation';
+
+interface WordPopoverProps {
+  word: string;
+  context: string;
+  anchor: DOMRect;
+  language: Language;
+  // Entry from the glossary when the word was already looked up
+  entry?: WordDefinition;
+  onDefined: (entry: WordDefinition) => void;
+  onSay: (text: string) => void;
+  onClose: () => void;
+}
+
+const POPOVER_WIDTH = 320;
+const POPOVER_MARGIN = 16;
+
+export const WordPopover: React.FC<WordPopoverProps> = ({ word, context, anchor, language, entry, onDefined, onSay, onClose }) => {
+  const [definition, setDefinition] = useState<WordDefinition | undefined>(entry);
+  const [isDrawing, setIsDrawing] = useState(false);
+  const [blocked, setBlocked] = useState(false);
+
+  const t = TRANSLATIONS[language];
+  // A picture can't be checked once drawn, so nothing with hidden words is drawn
+  const canDraw = !!definition?.definition && ![word, context, definition.definition, definition.example].some(isRedacted);
+
+  useEffect(() => {
+    if (entry) { setDefinition(entry); return; }
+    let cancelled = false;
+    setDefinition(undefined);
+    setBlocked(false);
+    defineWord(word, context, language)
+      .then(result => {
+        if (cancelled) return;
+        setDefinition(result);
+        if (result.definition) onDefined(result);
+      })
+      .catch(err => {
+        if (isContentBlocked(err)) { if (!cancelled) setBlocked(true); }
+        else console.error(err);
+      });
+    return () => { cancelled = true; };
+  }, [word, context, language]);
+
+  const handleDraw = async () => {
+    if (!definition || !canDraw) return;
+    setIsDrawing(true);
+    try {
+      const imageUrl = await generateSceneImage({ description: `${word}: ${definition.definition}`, keywords: [word] }, { style: 'cartoon', characters: [] });
+      const updated = { ...definition, imageUrl };
+      setDefinition(updated);
+      onDefined(updated);
+    } catch (err) { console.error(err); } finally { setIsDrawing(false); }
+  };
+
+  // Below the word when it fits, above it otherwise
+  const left = Math.max(POPOVER_MARGIN, Math.min(anchor.left, window.innerWidth - POPOVER_WIDTH - POPOVER_MARGIN));
+  const placeAbove = anchor.bottom > window.innerHeight * 0.6;
+  const position: React.CSSProperties = placeAbove
+    ? { left, bottom: window.innerHeight - anchor.top + 8, width: POPOVER_WIDTH }
+    : { left, top: anchor.bottom + 8, width: POPOVER_WIDTH };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-[60]" onClick={onClose} />
+      <div style={position} className="fixed z-[70] p-5 bg-white border-2 border-indigo-100 rounded-3xl shadow-2xl font-sans text-slate-800 text-left tracking-normal leading-normal">
+        <div className="flex items-center justify-between gap-3 mb-3">
+          <h3 className="text-2xl font-black tracking-tight break-words">{word}</h3>
+          <div className="flex items-center gap-1 shrink-0">
+            <button onClick={() => onSay(word)} title={t.sayIt} className="p-2 bg-indigo-50 text-indigo-600 rounded-xl hover:bg-indigo-100 transition-all">
+              <Volume2 className="w-5 h-5" />
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-slate-600 rounded-xl transition-all">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        {blocked ? (
+          <p className="py-2 font-bold leading-relaxed text-slate-500">{t.answerBlocked}</p>
+        ) : !definition ? (
+          <div className="flex items-center gap-3 py-4 text-slate-400 font-bold">
+            <Loader2 className="w-5 h-5 animate-spin" /> {t.definingWord}
+          </div>
+        ) : (
+          <div className="flex flex-col gap-3 text-base">
+            <p className="font-bold leading-relaxed">{definition.definition || t.noDefinition}</p>
+            {definition.example && (
+              <p className="text-slate-500 italic leading-relaxed">
+                <span className="not-italic text-[10px] font-black uppercase tracking-widest text-indigo-400 block mb-1">{t.example}</span>
+                {definition.example}
+              </p>
+            )}
+            {definition.imageUrl ? (
+              <img src={definition.imageUrl} alt={word} className="w-full aspect-square object-cover rounded-2xl border border-slate-100" />
+            ) : canDraw && (
+              <button onClick={handleDraw} disabled={isDrawing} className="flex items-center justify-center gap-2 py-2 bg-slate-50 text-slate-500 hover:text-indigo-600 rounded-full text-sm font-bold transition-all disabled:opacity-60">
+                {isDrawing ? <Loader2 className="w-4 h-4 animate-spin" /> : <ImageIcon className="w-4 h-4" />} {t.showPicture}
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+    </>
+  );
+};
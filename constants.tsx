@@ -8,8 +8,11 @@ import {
   Sun,
   Moon,
   Coffee,
-  Zap
+  Zap,
+  Wand2,
+  Trophy
 } from 'lucide-react';
+import { ReaderSettings, RulerColor } from './types';
 
 export const THEMES = {
   light: {
@@ -17,6 +20,9 @@ export const THEMES = {
     text: 'text-slate-900',
     card: 'bg-white',
     accent: 'bg-indigo-500',
+    highlight: 'bg-indigo-50',
+    wordHighlight: 'bg-yellow-200 text-slate-900',
+    syllableColors: ['text-rose-600', 'text-blue-600'],
     icon: <Sun className="w-5 h-5" />
   },
   dark: {
@@ -24,6 +30,9 @@ export const THEMES = {
     text: 'text-slate-100',
     card: 'bg-slate-800',
     accent: 'bg-indigo-400',
+    highlight: 'bg-slate-700',
+    wordHighlight: 'bg-indigo-500 text-white',
+    syllableColors: ['text-rose-300', 'text-sky-300'],
     icon: <Moon className="w-5 h-5" />
   },
   sepia: {
@@ -31,6 +40,9 @@ export const THEMES = {
     text: 'text-[#5B4636]',
     card: 'bg-[#EFE3C8]',
     accent: 'bg-[#A67B5B]',
+    highlight: 'bg-[#E8D9B5]',
+    wordHighlight: 'bg-[#A67B5B] text-white',
+    syllableColors: ['text-[#A33B2B]', 'text-[#2B5C8A]'],
     icon: <Coffee className="w-5 h-5" />
   },
   contrast: {
@@ -38,10 +50,23 @@ export const THEMES = {
     text: 'text-yellow-400',
     card: 'bg-slate-900',
     accent: 'bg-yellow-400',
+    highlight: 'bg-slate-800',
+    wordHighlight: 'bg-yellow-400 text-black',
+    syllableColors: ['text-yellow-400', 'text-cyan-300'],
     icon: <Zap className="w-5 h-5" />
   }
 };
 
+// RGB triplets, so the ruler opacity can be applied on top
+export const RULER_COLORS: Record<RulerColor, string> = {
+  yellow: '250, 204, 21',
+  blue: '96, 165, 250',
+  green: '74, 222, 128',
+  pink: '244, 114, 182'
+};
+
+export const getFontClass = (f: ReaderSettings['fontFamily']) => f === 'dyslexic' ? 'font-dyslexic' : f === 'rounded' ? 'font-rounded' : 'font-sans';
+
 export const MODULE_CARDS = [
   {
     id: 'READER',
@@ -71,5 +96,19 @@ export const MODULE_CARDS = [
     icon: <Video className="w-12 h-12 text-orange-500" />,
     color: 'border-orange-100 bg-white',
     disabled: false
+  },
+  {
+    id: 'SIMPLIFY',
+    title: 'Texto Fácil',
+    description: 'Reescribe la historia con palabras más sencillas, a tu nivel.',
+    icon: <Wand2 className="w-12 h-12 text-emerald-500" />,
+    color: 'border-emerald-100 bg-white'
+  },
+  {
+    id: 'QUIZ',
+    title: 'Juego de Preguntas',
+    description: 'Comprueba cuánto has entendido respondiendo preguntas sobre la historia.',
+    icon: <Trophy className="w-12 h-12 text-amber-500" />,
+    color: 'border-amber-100 bg-white'
   }
 ];
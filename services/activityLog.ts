@@ -0,0 +1,58 @@
+import { ActivityEvent } from "../types";
+import { requestToPromise, withStore } from "./db";
+
+const STORE = 'activity';
+
+type ActivityContext = Pick<ActivityEvent, 'profileId' | 'documentId' | 'documentTitle'>;
+
+type ActivityInput = Omit<ActivityEvent, 'id' | 'at' | keyof ActivityContext>;
+
+// Who is reading what. App keeps this up to date so the modes only have to
+// say what happened.
+let context: ActivityContext = {};
+
+export const setActivityContext = (next: ActivityContext) => { context = next; };
+
+export function logActivity(event: ActivityInput) {
+  const now = Date.now();
+  const entry: ActivityEvent = {
+    ...context,
+    ...event,
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    at: now
+  };
+  withStore(STORE, 'readwrite', store => requestToPromise(store.put(entry)))
+    .catch(err => console.error("No se pudo guardar la actividad:", err));
+}
+
+export async function listActivity(): Promise<ActivityEvent[]> {
+  const events = await withStore(STORE, 'readonly', store => requestToPromise<ActivityEvent[]>(store.getAll()));
+  return events.sort((a, b) => a.at - b.at);
+}
+
+export async function clearActivity() {
+  await withStore(STORE, 'readwrite', store => requestToPromise(store.clear()));
+}
+
+const CSV_COLUMNS: (keyof ActivityEvent)[] = ['at', 'kind', 'profileId', 'documentId', 'documentTitle', 'mode', 'seconds', 'score', 'total', 'word', 'question'];
+
+// Spreadsheets run cells starting with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const csvCell = (value: unknown) => {
+  const raw = value === undefined ? '' : String(value);
+  // Typed text (questions, words) could otherwise end up as a formula
+  const text = typeof value === 'string' && FORMULA_START.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// `names` replaces profile ids with the readers' names in the export
+export function activityToCsv(events: ActivityEvent[], names: Record<string, string> = {}): string {
+  const rows = events.map(e => CSV_COLUMNS.map(column => {
+    if (column === 'at') return csvCell(new Date(e.at).toISOString());
+    if (column === 'profileId') return csvCell(e.profileId ? names[e.profileId] || e.profileId : '');
+    return csvCell(e[column]);
+  }).join(','));
+  const header = CSV_COLUMNS.map(column => column === 'profileId' ? 'reader' : column).join(',');
+  return [header, ...rows].join('\n');
+}
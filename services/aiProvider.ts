@@ -0,0 +1,66 @@
+import { ChatMessage, ComicCharacter, ComicScene, ComicScript, DialogueLine, DocumentPassage, Language, ModerationFinding, NarratorStyle, QuizItem, ReadingLevel, SceneImageOptions, SpeechOptions, WordDefinition } from "../types";
+
+export type AIProviderName = 'gemini' | 'local';
+
+// Transcriptions arrive in pieces, each continuing the previous one
+export interface LiveCallbacks {
+  onOpen?: () => void;
+  onInputTranscription?: (text: string) => void;
+  onOutputTranscription?: (text: string) => void;
+  onOutputAudio?: (base64Pcm: string) => void;
+  // The child spoke over the answer; audio already sent should be dropped
+  onInterrupted?: () => void;
+  onTurnComplete?: () => void;
+  onClose?: () => void;
+  onError?: (err: unknown) => void;
+}
+
+export interface LiveOptions {
+  lang: Language;
+  // What the tutor talks about; the provider writes the instructions around it
+  document: string;
+  summary?: string[];
+  callbacks: LiveCallbacks;
+}
+
+export interface LiveSession {
+  // 16-bit mono PCM at 16 kHz, base64 encoded
+  sendAudio: (base64Pcm: string) => void;
+  close: () => void;
+}
+
+// Everything the modes need from an AI backend. Speech is 16-bit mono PCM at
+// 24 kHz (base64), images are data URLs and videos are playable object URLs.
+export interface AIProvider {
+  name: AIProviderName;
+  speechModel: string;
+  speechVoices: string[];
+  defaultVoices: Record<Language, string>;
+  extractTextFromMedia: (base64Data: string, mimeType: string, lang: Language) => Promise<string>;
+  generateSimpleSummary: (text: string, lang: Language) => Promise<string[]>;
+  generateSuggestedQuestions: (text: string, lang: Language) => Promise<string[]>;
+  // `history` holds the earlier turns; `passages` are the parts of the
+  // document most relevant to `userMessage`. The answer is passed to
+  // `onChunk` piece by piece as it is written and resolved whole at the end.
+  chatWithDocument: (history: ChatMessage[], userMessage: string, passages: DocumentPassage[], lang: Language, onChunk: (chunk: string) => void, signal?: AbortSignal) => Promise<string>;
+  // Passages that may not suit young readers, however mild; the age band
+  // thresholds are applied afterwards
+  moderateText: (text: string, lang: Language) => Promise<ModerationFinding[]>;
+  // Returns one rewrite per input sentence, in the same order
+  simplifySentences: (sentences: string[], level: ReadingLevel, lang: Language) => Promise<string[]>;
+  // `context` is the sentence the word was found in
+  defineWord: (word: string, context: string, lang: Language) => Promise<WordDefinition>;
+  generateQuiz: (text: string, lang: Language) => Promise<QuizItem[]>;
+  // `knownCharacters` come from earlier chapters and should be reused as they are
+  generateComicScript: (text: string, lang: Language, panelCount: number, knownCharacters: ComicCharacter[]) => Promise<ComicScript>;
+  generateSceneImage: (scene: ComicScene, options: SceneImageOptions) => Promise<string>;
+  generateSpeech: (text: string, lang: Language, options?: SpeechOptions) => Promise<string>;
+  // At most `maxDialogueSpeakers` different speakers per call; `voices` maps
+  // every speaker (the narrator is '') to a voice
+  maxDialogueSpeakers: number;
+  generateDialogueSpeech: (lines: DialogueLine[], lang: Language, voices: Record<string, string>, style?: NarratorStyle) => Promise<string>;
+  generateVideoPrompt: (text: string, lang: Language) => Promise<string>;
+  ensureVideoAccess: () => Promise<void>;
+  generateVideo: (prompt: string) => Promise<string>;
+  connectLive: (options: LiveOptions) => Promise<LiveSession>;
+}
@@ -0,0 +1,269 @@
+import { PDFDocument } from "pdf-lib";
+import { ComicScene, ReaderSettings } from "../types";
+import { hasPanelText } from "./comicPanels";
+
+export type ComicLayout = 'grid' | 'strip';
+export type PaperSize = 'A4' | 'Letter';
+
+export interface ComicExportOptions {
+  title: string;
+  layout: ComicLayout;
+  paper: PaperSize;
+  fontFamily: ReaderSettings['fontFamily'];
+}
+
+// Page sizes in PDF points (1/72 inch)
+const PAPER_POINTS: Record<PaperSize, [number, number]> = {
+  A4: [595.28, 841.89],
+  Letter: [612, 792]
+};
+
+// Pixels per point for the rendered page, about 200 dpi once printed
+const RENDER_SCALE = 200 / 72;
+
+const FONT_STACKS: Record<ReaderSettings['fontFamily'], string> = {
+  standard: "'Lexend', sans-serif",
+  dyslexic: "'OpenDyslexic', sans-serif",
+  rounded: "'Arial Rounded MT Bold', 'Lexend', sans-serif"
+};
+
+const INK = '#1e293b';
+
+const loadImage = (src: string) => new Promise<HTMLImageElement>((resolve, reject) => {
+  const img = new Image();
+  img.crossOrigin = 'anonymous';
+  img.onload = () => resolve(img);
+  img.onerror = () => reject(new Error("No se pudo cargar la imagen del cómic"));
+  img.src = src;
+});
+
+const wrapLines = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (line && ctx.measureText(candidate).width > maxWidth) {
+      lines.push(line);
+      line = word;
+    } else {
+      line = candidate;
+    }
+  }
+  if (line) lines.push(line);
+  return lines;
+};
+
+// Largest font size (up to `maxSize`) at which the caption fits the box
+const drawCaption = (
+  ctx: CanvasRenderingContext2D, text: string, font: string,
+  x: number, y: number, width: number, height: number, maxSize: number
+) => {
+  let size = maxSize;
+  let lines: string[] = [];
+  for (; size > 10; size -= 2) {
+    ctx.font = `${size}px ${font}`;
+    lines = wrapLines(ctx, text, width);
+    if (lines.length * size * 1.35 <= height) break;
+  }
+  ctx.fillStyle = INK;
+  ctx.textBaseline = 'top';
+  lines.forEach((line, i) => ctx.fillText(line, x, y + i * size * 1.35, width));
+};
+
+const drawPanel = (ctx: CanvasRenderingContext2D, img: HTMLImageElement | null, x: number, y: number, size: number) => {
+  const radius = size * 0.04;
+  ctx.save();
+  ctx.beginPath();
+  ctx.roundRect(x, y, size, size, radius);
+  ctx.clip();
+  ctx.fillStyle = '#f1f5f9';
+  ctx.fillRect(x, y, size, size);
+  if (img) {
+    // Cover the square panel like object-cover does on screen
+    const scale = Math.max(size / img.width, size / img.height);
+    ctx.drawImage(img, x + (size - img.width * scale) / 2, y + (size - img.height * scale) / 2, img.width * scale, img.height * scale);
+  }
+  ctx.restore();
+  ctx.lineWidth = Math.max(3, size * 0.008);
+  ctx.strokeStyle = INK;
+  ctx.beginPath();
+  ctx.roundRect(x, y, size, size, radius);
+  ctx.stroke();
+};
+
+interface PanelTextBox {
+  text: string;
+  speaker?: string;
+  right?: boolean;
+  bubble: boolean;
+}
+
+// Same arrangement as the on-screen bubbles: top boxes stack down from the top
+// edge and bottom boxes stack up from the bottom edge
+const drawPanelText = (ctx: CanvasRenderingContext2D, scene: ComicScene, font: string, x: number, y: number, size: number) => {
+  const captions = scene.captions || [];
+  const dialogue = scene.dialogue || [];
+  const toBubble = (d: typeof dialogue[number]): PanelTextBox => ({ text: d.text, speaker: d.speaker, right: d.position.endsWith('right'), bubble: true });
+  const top: PanelTextBox[] = [
+    ...captions.filter(c => c.position === 'top').map(c => ({ text: c.text, bubble: false })),
+    ...dialogue.filter(d => d.position.startsWith('top')).map(toBubble)
+  ];
+  const bottom: PanelTextBox[] = [
+    ...dialogue.filter(d => d.position.startsWith('bottom')).map(toBubble),
+    ...captions.filter(c => c.position === 'bottom').map(c => ({ text: c.text, bubble: false }))
+  ];
+
+  const fontPx = size * 0.05;
+  const lineHeight = fontPx * 1.3;
+  const pad = size * 0.03;
+  const inner = fontPx * 0.5;
+  const tail = fontPx * 0.6;
+
+  const measure = (box: PanelTextBox) => {
+    ctx.font = `bold ${fontPx}px ${font}`;
+    const maxWidth = (box.bubble ? size * 0.7 : size - pad * 2) - inner * 2;
+    const lines = wrapLines(ctx, box.text, maxWidth);
+    const speakerWidth = box.speaker ? (ctx.font = `bold ${fontPx * 0.7}px ${font}`, ctx.measureText(box.speaker.toUpperCase()).width) : 0;
+    ctx.font = `bold ${fontPx}px ${font}`;
+    const textWidth = Math.max(speakerWidth, ...lines.map(l => ctx.measureText(l).width));
+    return {
+      lines,
+      width: box.bubble ? Math.min(textWidth, maxWidth) + inner * 2 : size - pad * 2,
+      height: lines.length * lineHeight + inner * 2 + (box.speaker ? fontPx * 0.9 : 0)
+    };
+  };
+
+  const draw = (box: PanelTextBox, boxY: number, below: boolean) => {
+    const { lines, width, height } = measure(box);
+    const boxX = box.right ? x + size - pad - width : x + pad;
+    ctx.beginPath();
+    ctx.roundRect(boxX, boxY, width, height, box.bubble ? fontPx * 0.8 : fontPx * 0.25);
+    if (box.bubble) {
+      // Tail towards the speaker's corner
+      const tailX = box.right ? boxX + width - fontPx * 1.5 : boxX + fontPx * 1.5;
+      const edge = below ? boxY : boxY + height;
+      ctx.moveTo(tailX - tail * 0.6, edge);
+      ctx.lineTo(tailX, below ? edge - tail : edge + tail);
+      ctx.lineTo(tailX + tail * 0.6, edge);
+      ctx.closePath();
+    }
+    // Stroking at double width and filling on top leaves only the outline of
+    // the bubble and tail together
+    ctx.lineWidth = Math.max(4, size * 0.012);
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = INK;
+    ctx.stroke();
+    ctx.fillStyle = box.bubble ? '#ffffff' : '#fef3c7';
+    ctx.fill('nonzero');
+    ctx.textBaseline = 'top';
+    let textY = boxY + inner;
+    if (box.speaker) {
+      ctx.font = `bold ${fontPx * 0.7}px ${font}`;
+      ctx.fillStyle = '#9333ea';
+      ctx.fillText(box.speaker.toUpperCase(), boxX + inner, textY);
+      textY += fontPx * 0.9;
+    }
+    ctx.font = `bold ${fontPx}px ${font}`;
+    ctx.fillStyle = INK;
+    lines.forEach((line, i) => ctx.fillText(line, boxX + inner, textY + i * lineHeight));
+    return height;
+  };
+
+  let topY = y + pad;
+  for (const box of top) topY += draw(box, topY, false) + pad + (box.bubble ? tail : 0);
+  let bottomY = y + size - pad;
+  for (const box of bottom.slice().reverse()) {
+    const { height } = measure(box);
+    bottomY -= height;
+    draw(box, bottomY, true);
+    bottomY -= pad + (box.bubble ? tail : 0);
+  }
+};
+
+// Draws the whole page: a title, then 2x2 panels with captions below or a
+// vertical strip with captions beside each panel.
+export async function renderComicPage(scenes: ComicScene[], options: ComicExportOptions): Promise<HTMLCanvasElement> {
+  const [pageWidth, pageHeight] = PAPER_POINTS[options.paper];
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(pageWidth * RENDER_SCALE);
+  canvas.height = Math.round(pageHeight * RENDER_SCALE);
+  const ctx = canvas.getContext('2d')!;
+  const font = FONT_STACKS[options.fontFamily];
+  const width = canvas.width;
+  const height = canvas.height;
+
+  // Web fonts are only usable on a canvas once loaded
+  await document.fonts.load(`32px ${font}`).catch(() => undefined);
+  const images = await Promise.all(scenes.map(s => s.imageUrl ? loadImage(s.imageUrl).catch(() => null) : Promise.resolve(null)));
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+
+  const margin = width * 0.06;
+  const gap = width * 0.035;
+  const titleSize = width * 0.045;
+  ctx.font = `bold ${titleSize}px ${font}`;
+  ctx.fillStyle = INK;
+  ctx.textBaseline = 'top';
+  ctx.textAlign = 'center';
+  ctx.fillText(options.title, width / 2, margin, width - margin * 2);
+  ctx.textAlign = 'left';
+
+  const top = margin + titleSize * 1.8;
+  const contentWidth = width - margin * 2;
+  const contentHeight = height - top - margin;
+  const captionMax = width * 0.026;
+
+  if (options.layout === 'grid') {
+    const rows = Math.ceil(scenes.length / 2);
+    const cellWidth = (contentWidth - gap) / 2;
+    const cellHeight = (contentHeight - gap * (rows - 1)) / rows;
+    // Panels carrying their own text need no room for a caption below
+    const panel = Math.min(cellWidth, cellHeight * (scenes.every(hasPanelText) ? 1 : 0.72));
+    scenes.forEach((scene, i) => {
+      const x = margin + (i % 2) * (cellWidth + gap) + (cellWidth - panel) / 2;
+      const y = top + Math.floor(i / 2) * (cellHeight + gap);
+      drawPanel(ctx, images[i], x, y, panel);
+      if (hasPanelText(scene)) drawPanelText(ctx, scene, font, x, y, panel);
+      else drawCaption(ctx, scene.description, font, x, y + panel + gap * 0.4, panel, cellHeight - panel - gap * 0.4, captionMax);
+    });
+  } else {
+    const cellHeight = (contentHeight - gap * (scenes.length - 1)) / scenes.length;
+    const panel = Math.min(cellHeight, contentWidth * 0.45);
+    scenes.forEach((scene, i) => {
+      const y = top + i * (cellHeight + gap) + (cellHeight - panel) / 2;
+      if (hasPanelText(scene)) {
+        const bigPanel = Math.min(cellHeight, contentWidth);
+        const x = margin + (contentWidth - bigPanel) / 2;
+        const bigY = top + i * (cellHeight + gap) + (cellHeight - bigPanel) / 2;
+        drawPanel(ctx, images[i], x, bigY, bigPanel);
+        drawPanelText(ctx, scene, font, x, bigY, bigPanel);
+        return;
+      }
+      drawPanel(ctx, images[i], margin, y, panel);
+      drawCaption(ctx, scene.description, font, margin + panel + gap, y, contentWidth - panel - gap, panel, captionMax);
+    });
+  }
+  return canvas;
+}
+
+export async function exportComicPng(scenes: ComicScene[], options: ComicExportOptions): Promise<Blob> {
+  const canvas = await renderComicPage(scenes, options);
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("No se pudo crear la imagen")), 'image/png');
+  });
+}
+
+// The page is rendered once and placed as a full-page image, so captions keep
+// the chosen font without embedding it in the PDF
+export async function exportComicPdf(scenes: ComicScene[], options: ComicExportOptions): Promise<Blob> {
+  const png = await exportComicPng(scenes, options);
+  const pdf = await PDFDocument.create();
+  pdf.setTitle(options.title);
+  const [pageWidth, pageHeight] = PAPER_POINTS[options.paper];
+  const page = pdf.addPage([pageWidth, pageHeight]);
+  const image = await pdf.embedPng(await png.arrayBuffer());
+  page.drawImage(image, { x: 0, y: 0, width: pageWidth, height: pageHeight });
+  const bytes = await pdf.save();
+  return new Blob([bytes], { type: 'application/pdf' });
+}
@@ -0,0 +1,14 @@
+import { ComicScene, DialogueLine } from "../types";
+
+export const hasPanelText = (scene: ComicScene) => !!(scene.captions?.length || scene.dialogue?.length);
+
+// What is read aloud for a panel, in reading order; captions are the narrator's
+export const panelLines = (scene: ComicScene): DialogueLine[] => {
+  if (!hasPanelText(scene)) return [{ speaker: '', text: scene.description }];
+  const captions = scene.captions || [];
+  return [
+    ...captions.filter(c => c.position === 'top').map(c => ({ speaker: '', text: c.text })),
+    ...(scene.dialogue || []).map(d => ({ speaker: d.speaker, text: d.text })),
+    ...captions.filter(c => c.position === 'bottom').map(c => ({ speaker: '', text: c.text }))
+  ];
+};
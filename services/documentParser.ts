@@ -0,0 +1,99 @@
+import JSZip from "jszip";
+
+// Formats that already carry machine-readable text and never need OCR
+const LOCAL_EXTENSIONS = ['txt', 'md', 'markdown', 'docx', 'epub'];
+
+const extensionOf = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || '';
+
+export const isLocalTextFile = (file: File) =>
+  LOCAL_EXTENSIONS.includes(extensionOf(file.name)) || file.type === 'text/plain' || file.type === 'text/markdown';
+
+const normalizeWhitespace = (text: string) =>
+  text.replace(/\r\n?/g, '\n').replace(/[ \t]+\n/g, '\n').replace(/\n{3,}/g, '\n\n').trim();
+
+// Keeps the words and drops the markup, so narration does not read symbols aloud
+export const stripMarkdown = (markdown: string) =>
+  markdown
+    .replace(/```[\s\S]*?```/g, '')
+    .replace(/!\[[^\]]*\]\([^)]*\)/g, '')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/^\s{0,3}#{1,6}\s+/gm, '')
+    .replace(/^\s{0,3}>\s?/gm, '')
+    .replace(/^\s*[-*+]\s+/gm, '')
+    .replace(/^\s*([-*_]\s*){3,}$/gm, '')
+    .replace(/(\*\*|__)(.*?)\1/g, '$2')
+    .replace(/(\*|_)(.*?)\1/g, '$2')
+    .replace(/`([^`]+)`/g, '$1');
+
+const parseXml = (xml: string, type: DOMParserSupportedType = 'application/xml') => new DOMParser().parseFromString(xml, type);
+
+async function parseDocx(data: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+  const documentXml = await zip.file('word/document.xml')?.async('string');
+  if (!documentXml) throw new Error("Invalid DOCX.");
+
+  const doc = parseXml(documentXml);
+  const paragraphs = Array.from(doc.getElementsByTagName('w:p')).map(paragraph => {
+    let line = '';
+    for (const node of Array.from(paragraph.getElementsByTagName('*'))) {
+      if (node.tagName === 'w:t') line += node.textContent || '';
+      else if (node.tagName === 'w:tab') line += '\t';
+      else if (node.tagName === 'w:br') line += '\n';
+    }
+    return line;
+  });
+  return paragraphs.join('\n');
+}
+
+const resolvePath = (base: string, href: string) => {
+  const parts = (base ? base.split('/') : []).concat(decodeURIComponent(href.split('#')[0]).split('/'));
+  const resolved: string[] = [];
+  for (const part of parts) {
+    if (part === '..') resolved.pop();
+    else if (part && part !== '.') resolved.push(part);
+  }
+  return resolved.join('/');
+};
+
+const BLOCK_SELECTOR = 'h1, h2, h3, h4, h5, h6, p, li, blockquote, pre';
+
+async function parseEpub(data: ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(data);
+  const containerXml = await zip.file('META-INF/container.xml')?.async('string');
+  const opfPath = containerXml && parseXml(containerXml).getElementsByTagName('rootfile')[0]?.getAttribute('full-path');
+  const opfXml = opfPath && await zip.file(opfPath)?.async('string');
+  if (!opfPath || !opfXml) throw new Error("Invalid EPUB.");
+
+  const opf = parseXml(opfXml);
+  const opfDir = opfPath.includes('/') ? opfPath.substring(0, opfPath.lastIndexOf('/')) : '';
+  const manifest = new Map<string, string>();
+  for (const item of Array.from(opf.getElementsByTagName('item'))) {
+    manifest.set(item.getAttribute('id') || '', item.getAttribute('href') || '');
+  }
+
+  const chapters: string[] = [];
+  for (const itemref of Array.from(opf.getElementsByTagName('itemref'))) {
+    const href = manifest.get(itemref.getAttribute('idref') || '');
+    if (!href) continue;
+    const chapterHtml = await zip.file(resolvePath(opfDir, href))?.async('string');
+    if (!chapterHtml) continue;
+    const chapter = parseXml(chapterHtml, 'text/html');
+    const blocks = Array.from(chapter.body?.querySelectorAll(BLOCK_SELECTOR) || [])
+      // Nested blocks (a <p> inside a <blockquote>) would otherwise be read twice
+      .filter(el => !el.parentElement?.closest(BLOCK_SELECTOR))
+      .map(el => el.textContent?.trim() || '')
+      .filter(Boolean);
+    chapters.push(blocks.length ? blocks.join('\n\n') : chapter.body?.textContent?.trim() || '');
+  }
+  return chapters.filter(Boolean).join('\n\n');
+}
+
+export async function parseTextFile(file: File): Promise<string> {
+  const extension = extensionOf(file.name);
+  let text: string;
+  if (extension === 'docx') text = await parseDocx(await file.arrayBuffer());
+  else if (extension === 'epub') text = await parseEpub(await file.arrayBuffer());
+  else if (extension === 'md' || extension === 'markdown' || file.type === 'text/markdown') text = stripMarkdown(await file.text());
+  else text = await file.text();
+  return normalizeWhitespace(text);
+}
@@ -0,0 +1,448 @@
+import { GoogleGenAI, Type, Modality } from "@google/genai";
+import { AgeBand, ComicArtStyle, ComicScene, DialogueLine, Language, ModerationFinding, NarratorStyle, ReadingLevel, SceneImageOptions } from "../types";
+import { AIProvider } from "./aiProvider";
+import { getAgeBand } from "./moderation";
+
+// Tone for each age band; the safety check itself runs separately on inputs
+// and outputs, so prompts only have to keep answers suitable
+const AGE_BAND_AUDIENCES: Record<AgeBand, string> = {
+  '4-6': "niños muy pequeños (4-6 años) que empiezan a leer. Frases muy cortas, palabras cotidianas y un tono cálido y juguetón.",
+  '6-10': "niños (6-10 años). Frases cortas y claras y un tono amable, como un compañero mágico.",
+  '10-14': "preadolescentes (10-14 años). Lenguaje claro, puedes dar más detalle; tono cercano pero no infantil.",
+  'teen': "adolescentes. Tono natural y respetuoso, sin hablarles como a niños pequeños."
+};
+
+const getSafetyPrompt = (lang: Language) => `
+REGLA CRÍTICA DE SEGURIDAD: Escribes para ${AGE_BAND_AUDIENCES[getAgeBand()]}
+1. No añadas nunca violencia explícita, contenido sexual, lenguaje adulto ni detalles de terror que no sean aptos para esa edad.
+2. Si el texto de origen los contiene, omítelos o menciónalos con suavidad y sin describirlos.
+3. MUY IMPORTANTE: Responde SIEMPRE en el idioma: ${lang === 'es' ? 'Español' : lang === 'en' ? 'English' : lang === 'pt' ? 'Português' : 'Deutsch'}.
+`;
+
+// How much of the document the voice tutor is told about
+const LIVE_CONTEXT_CHARS = 4000;
+
+const READING_LEVEL_GUIDES: Record<ReadingLevel, string> = {
+  easy: "Easy-read: very short sentences (at most 10 words), everyday words, one idea per sentence, explain any hard word.",
+  grade2: "Reading level of a 7-8 year old (2nd grade): short sentences and common words.",
+  grade4: "Reading level of a 9-10 year old (4th grade): clear sentences, keep important story words."
+};
+
+export const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+
+// Prebuilt voices are multilingual; these are the ones that suit children best
+const TTS_VOICES = ['Kore', 'Aoede', 'Leda', 'Puck', 'Charon', 'Zephyr', 'Achird', 'Sulafat'];
+
+const TTS_DEFAULT_VOICES: Record<Language, string> = { es: 'Kore', en: 'Kore', pt: 'Aoede', de: 'Charon' };
+
+const TTS_LANGUAGE_CODES: Record<Language, string> = { es: 'es-US', en: 'en-US', pt: 'pt-BR', de: 'de-DE' };
+
+// The TTS model takes its delivery style from a spoken direction before the text
+const TTS_STYLE_DIRECTIONS: Record<NarratorStyle, string> = {
+  neutral: '',
+  calm: 'Read slowly, in a calm and gentle voice: ',
+  storyteller: 'Read like a warm storyteller telling a bedtime story: ',
+  cheerful: 'Read in a cheerful, lively voice: '
+};
+
+const COMIC_STYLE_PROMPTS: Record<ComicArtStyle, string> = {
+  cartoon: "3D animated movie style, soft lighting",
+  watercolor: "soft watercolor painting, gentle pastel colors",
+  crayon: "child's crayon drawing, bold wax strokes on paper",
+  comicbook: "classic comic book style, clean ink outlines, flat bright colors",
+  papercut: "layered paper cut-out collage"
+};
+
+// Multi-speaker TTS matches transcript lines to voices by a plain speaker label
+const speakerLabel = (speaker: string) => speaker.replace(/[^\p{L}\p{N}]+/gu, '') || 'Narrator';
+
+// Only raster images can be sent back to the model as a reference
+const parseImageDataUrl = (url?: string) => {
+  const match = url?.match(/^data:(image\/(?:png|jpeg|webp));base64,(.+)$/);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+export const geminiProvider: AIProvider = {
+  name: 'gemini',
+  speechModel: TTS_MODEL,
+  speechVoices: TTS_VOICES,
+  defaultVoices: TTS_DEFAULT_VOICES,
+  maxDialogueSpeakers: 2,
+
+  async extractTextFromMedia(base64Data, mimeType, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: {
+        parts: [
+          { inlineData: { data: base64Data, mimeType: mimeType } },
+          { text: `TASK: Literal transcription.
+          Language: ${lang}.
+          Extract all text word-for-word. Keep structure. No summarizing.` }
+        ]
+      }
+    });
+    return response.text || "";
+  },
+
+  async generateSimpleSummary(text, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nSummarize in 3 bullet points for kids in language ${lang}. Only JSON array:\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "[]"); } catch { return ["..."]; }
+  },
+
+  async generateSuggestedQuestions(text, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\n3 short questions for kids about this text in language ${lang}. Only JSON array:\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "[]"); } catch { return []; }
+  },
+
+  async chatWithDocument(history, userMessage, passages, lang, onChunk, signal) {
+    const ai = getAI();
+    // The conversation has to open with a user turn, so the greeting is skipped
+    const firstQuestion = history.findIndex(m => m.role === 'user');
+    const turns = firstQuestion < 0 ? [] : history.slice(firstQuestion);
+    const chat = ai.chats.create({
+      model: 'gemini-3-flash-preview',
+      history: turns.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      config: {
+        systemInstruction: `${getSafetyPrompt(lang)}\nYou are Claramente, a patient reading tutor talking with a child about a document. Answer in 2-4 short, friendly sentences, using only what the document says. Every question comes with numbered passages of the document that matter for it. After each fact, write the number of the passage it comes from in brackets, like [2]. If the passages do not contain the answer, say so kindly instead of guessing. Remember what the child asked before.`,
+      }
+    });
+    const context = passages.map((p, i) => `[${i + 1}] ${p.text}`).join('\n\n');
+    const stream = await chat.sendMessageStream({
+      message: `Passages from the document:\n${context}\n\nChild's question: ${userMessage}`,
+      config: { abortSignal: signal }
+    });
+    let answer = '';
+    for await (const chunk of stream) {
+      if (!chunk.text) continue;
+      answer += chunk.text;
+      onChunk(chunk.text);
+    }
+    return answer || "!";
+  },
+
+  async moderateText(text, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `You review texts for a reading app for children and teenagers. The text is in language ${lang}. List every passage with violence, sexual content, bad language, frightening content, self-harm, drugs or hate. For each one give the category, how intense it is (low: mild or only hinted, medium: clearly present, high: explicit or graphic) and the shortest exact quote from the text that contains it, copied character by character. Return an empty array when there is nothing. Only JSON array of objects {category, severity, quote}:\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              category: { type: Type.STRING, enum: ['violence', 'sexual', 'language', 'fear', 'self_harm', 'drugs', 'hate'] },
+              severity: { type: Type.STRING, enum: ['low', 'medium', 'high'] },
+              quote: { type: Type.STRING }
+            },
+            required: ["category", "severity", "quote"]
+          }
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "[]") as ModerationFinding[]; } catch { return []; }
+  },
+
+  async simplifySentences(sentences, level, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nRewrite each sentence of this JSON array for children in language ${lang}. ${READING_LEVEL_GUIDES[level]} Keep the meaning and the order. Return a JSON array with exactly ${sentences.length} strings, one rewrite per input sentence:\n\n${JSON.stringify(sentences)}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: { type: Type.STRING }
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "[]"); } catch { return []; }
+  },
+
+  async defineWord(word, context, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nExplain the word "${word}" to a child in language ${lang}, with the meaning it has in this sentence: "${context}". Give a very simple one-sentence definition and a short new example sentence. Only JSON object {definition, example}.`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            definition: { type: Type.STRING },
+            example: { type: Type.STRING }
+          },
+          required: ["definition", "example"]
+        }
+      }
+    });
+    try {
+      const parsed = JSON.parse(response.text || "{}");
+      return { word, definition: parsed.definition || "", example: parsed.example || "" };
+    } catch { return { word, definition: "", example: "" }; }
+  },
+
+  async generateQuiz(text, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nCreate a reading comprehension quiz for kids about this text, in language ${lang}. Make 6 items: 3 "multiple_choice" (4 options, answer = index of the right option), 2 "true_false" (options empty, answer 0 if the statement is true and 1 if false) and 1 "sequence" (options = 4 story events in the right order, answer 0). Every item needs a short kind explanation and the exact passage of the text that supports the answer. Only JSON array of objects {type, question, options, answer, explanation, passage}:\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              type: { type: Type.STRING, enum: ["multiple_choice", "true_false", "sequence"] },
+              question: { type: Type.STRING },
+              options: { type: Type.ARRAY, items: { type: Type.STRING } },
+              answer: { type: Type.INTEGER },
+              explanation: { type: Type.STRING },
+              passage: { type: Type.STRING }
+            },
+            required: ["type", "question", "options", "answer", "explanation", "passage"]
+          }
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "[]"); } catch { return []; }
+  },
+
+  async generateComicScript(text, lang, panelCount, knownCharacters) {
+    const ai = getAI();
+    const known = knownCharacters.length
+      ? ` These characters appeared earlier; when they show up, use exactly these names and appearances: ${knownCharacters.map(c => `${c.name} (${c.appearance})`).join('; ')}.`
+      : '';
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nCreate ${panelCount} comic scenes for kids that retell this text faithfully, covering it from beginning to end with the events in the same order as in the text. First list the main characters (at most 3), each with a name and a short, concrete appearance (species or age, colors, clothes, one distinctive detail) so an illustrator can draw them the same in every panel. Each scene has a description of the picture, 0-1 short narration captions (at the top or bottom of the panel) and 0-2 short speech bubbles (at most 12 words each) said by a character, with the corner of the picture where the speaker stands. All texts in language ${lang}.${known} Only JSON object {characters: [{name, appearance}], scenes: [{description, keywords, captions: [{text, position}], dialogue: [{speaker, text, position}]}]}:\n\n${text}`,
+      config: {
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            characters: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  name: { type: Type.STRING },
+                  appearance: { type: Type.STRING }
+                },
+                required: ["name", "appearance"]
+              }
+            },
+            scenes: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  description: { type: Type.STRING },
+                  keywords: { type: Type.ARRAY, items: { type: Type.STRING } },
+                  captions: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        text: { type: Type.STRING },
+                        position: { type: Type.STRING, enum: ["top", "bottom"] }
+                      },
+                      required: ["text", "position"]
+                    }
+                  },
+                  dialogue: {
+                    type: Type.ARRAY,
+                    items: {
+                      type: Type.OBJECT,
+                      properties: {
+                        speaker: { type: Type.STRING },
+                        text: { type: Type.STRING },
+                        position: { type: Type.STRING, enum: ["top-left", "top-right", "bottom-left", "bottom-right"] }
+                      },
+                      required: ["speaker", "text", "position"]
+                    }
+                  }
+                },
+                required: ["description", "keywords", "captions", "dialogue"]
+              }
+            }
+          },
+          required: ["characters", "scenes"]
+        }
+      }
+    });
+    try { return JSON.parse(response.text || "{}"); } catch { return { characters: [], scenes: [] }; }
+  },
+
+  async generateSceneImage(scene: ComicScene, { style, characters, referenceImage }: SceneImageOptions) {
+    const ai = getAI();
+    const sheet = characters.map(c => `${c.name}: ${c.appearance}`).join('; ');
+    const reference = parseImageDataUrl(referenceImage);
+    const prompt = [
+      `Children story illustration, ${COMIC_STYLE_PROMPTS[style]}, friendly, colorful, no text or speech bubbles, leave some calm space near the top for them.`,
+      sheet && `Characters, always drawn exactly like this: ${sheet}.`,
+      reference && "Keep the characters looking exactly like in the reference picture.",
+      `Scene: ${scene.description}.`
+    ].filter(Boolean).join(' ');
+    const response = await ai.models.generateContent({
+      model: 'gemini-2.5-flash-image',
+      contents: {
+        parts: reference ? [{ inlineData: reference }, { text: prompt }] : [{ text: prompt }]
+      },
+      config: { imageConfig: { aspectRatio: "1:1" } }
+    });
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+    }
+    return "";
+  },
+
+  async generateSpeech(text, lang, options) {
+    const ai = getAI();
+    const direction = TTS_STYLE_DIRECTIONS[options?.style || 'neutral'];
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `${direction}${text}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          languageCode: TTS_LANGUAGE_CODES[lang],
+          voiceConfig: { prebuiltVoiceConfig: { voiceName: options?.voice || TTS_DEFAULT_VOICES[lang] } }
+        }
+      }
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+  },
+
+  async generateDialogueSpeech(lines: DialogueLine[], lang, voices, style) {
+    const speakers = Array.from(new Set(lines.map(l => l.speaker)));
+    // The multi-speaker config needs exactly two speakers
+    if (speakers.length < 2) {
+      return geminiProvider.generateSpeech(lines.map(l => l.text).join(' '), lang, { voice: voices[speakers[0] ?? ''], style });
+    }
+    const ai = getAI();
+    const transcript = lines.map(l => `${speakerLabel(l.speaker)}: ${l.text}`).join('\n');
+    const response = await ai.models.generateContent({
+      model: TTS_MODEL,
+      contents: [{ parts: [{ text: `${TTS_STYLE_DIRECTIONS[style || 'neutral']}Read this comic aloud, giving each character their own voice:\n${transcript}` }] }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: {
+          languageCode: TTS_LANGUAGE_CODES[lang],
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: speakers.map(speaker => ({
+              speaker: speakerLabel(speaker),
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voices[speaker] || TTS_DEFAULT_VOICES[lang] } }
+            }))
+          }
+        }
+      }
+    });
+    return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+  },
+
+  async generateVideoPrompt(text, lang) {
+    const ai = getAI();
+    const response = await ai.models.generateContent({
+      model: 'gemini-3-flash-preview',
+      contents: `${getSafetyPrompt(lang)}\nGenerate an English video generation prompt based on this text: ${text.substring(0, 500)}`,
+    });
+    return response.text || "Magical forest animation.";
+  },
+
+  async ensureVideoAccess() {
+    // Veo needs a paid key picked through the AI Studio host
+    const hasKey = await (window as any).aistudio.hasSelectedApiKey();
+    if (!hasKey) {
+      await (window as any).aistudio.openSelectKey();
+    }
+  },
+
+  async generateVideo(prompt) {
+    // A fresh client so a key selected in ensureVideoAccess is picked up
+    const ai = getAI();
+    let operation = await ai.models.generateVideos({
+      model: 'veo-3.1-fast-generate-preview',
+      prompt: prompt,
+      config: {
+        numberOfVideos: 1,
+        resolution: '720p',
+        aspectRatio: '16:9'
+      }
+    });
+
+    while (!operation.done) {
+      await new Promise(resolve => setTimeout(resolve, 8000));
+      operation = await ai.operations.getVideosOperation({ operation });
+    }
+
+    const downloadLink = operation.response?.generatedVideos?.[0]?.video?.uri;
+    if (!downloadLink) throw new Error("Video fail");
+
+    const videoRes = await fetch(`${downloadLink}&key=${process.env.API_KEY}`);
+    return URL.createObjectURL(await videoRes.blob());
+  },
+
+  async connectLive({ lang, document, summary, callbacks }) {
+    const ai = getAI();
+    const systemInstruction = `${getSafetyPrompt(lang)}\nYou are Claramente, a friendly reading tutor talking by voice with a child about a document. Answer in short and simple spoken sentences, using what the document says. If the child interrupts, stop and listen.${summary?.length ? `\nSummary: ${summary.join(' ')}` : ''}\nDocument: ${document.substring(0, LIVE_CONTEXT_CHARS)}`;
+    const session = await ai.live.connect({
+      model: 'gemini-2.5-flash-native-audio-preview-12-2025',
+      callbacks: {
+        onopen: () => callbacks.onOpen?.(),
+        onmessage: (message) => {
+          if (message.serverContent?.inputTranscription?.text) {
+            callbacks.onInputTranscription?.(message.serverContent.inputTranscription.text);
+          }
+          if (message.serverContent?.outputTranscription?.text) {
+            callbacks.onOutputTranscription?.(message.serverContent.outputTranscription.text);
+          }
+          if (message.serverContent?.interrupted) callbacks.onInterrupted?.();
+          for (const part of message.serverContent?.modelTurn?.parts || []) {
+            if (part.inlineData?.data) callbacks.onOutputAudio?.(part.inlineData.data);
+          }
+          if (message.serverContent?.turnComplete) callbacks.onTurnComplete?.();
+        },
+        onclose: () => callbacks.onClose?.(),
+        onerror: (e) => callbacks.onError?.(e)
+      },
+      config: {
+        responseModalities: [Modality.AUDIO],
+        inputAudioTranscription: {},
+        outputAudioTranscription: {},
+        systemInstruction
+      }
+    });
+    return {
+      sendAudio: (base64Pcm) => session.sendRealtimeInput({ media: { data: base64Pcm, mimeType: 'audio/pcm;rate=16000' } }),
+      close: () => session.close()
+    };
+  }
+};
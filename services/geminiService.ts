@@ -1,24 +1,29 @@
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { ComicScene, Language } from "../types";
-
-const getSafetyPrompt = (lang: Language) => {
-  const messages = {
-    es: "¡Ups! Este contenido no es apto para niños. Mi magia solo funciona con historias bonitas y seguras.",
-    en: "Oops! This content is not suitable for children. My magic only works with nice and safe stories.",
-    pt: "Ops! Este conteúdo não é adequado para crianças. Minha magia só funciona com histórias bonitas e seguras.",
-    de: "Ups! Dieser Inhalt ist nicht für Kinder geeignet. Meine Magie funktioniert nur mit schönen und sicheren Geschichten."
-  };
-  
-  return `
-REGLA CRÍTICA DE SEGURIDAD: Eres un asistente para niños pequeños (6-10 años).
-1. Si el texto contiene: violencia explícita, contenido sexual, lenguaje adulto, temas de terror intenso, DEBES detenerte.
-2. Tu respuesta DEBE ser siempre: "${messages[lang]}"
-3. Actúa como un compañero mágico.
-4. MUY IMPORTANTE: Responde SIEMPRE en el idioma: ${lang === 'es' ? 'Español' : lang === 'en' ? 'English' : lang === 'pt' ? 'Português' : 'Deutsch'}.
-`;
+import { AlignedSentence, BubblePosition, ChatMessage, ComicCharacter, ComicScene, ComicScript, DialogueLine, DocumentPassage, Language, ModerationFlag, ModerationVerdict, QuizItem, ReaderSettings, ReadingLevel, SceneImageOptions, SpeechOptions, WordDefinition } from "../types";
+import { AIProvider, AIProviderName, LiveOptions } from "./aiProvider";
+import { geminiProvider } from "./geminiProvider";
+import { localProvider } from "./localProvider";
+import { speechCacheKey, getCachedSpeech, putCachedSpeech } from "./speechCache";
+import { splitSentences } from "./textSegments";
+import { mapWithConcurrency } from "./concurrency";
+import { findPassages } from "./retrieval";
+import { ContentBlockedError, isRedacted, judgeFlags, locateFindings, redactText, withoutRedactions } from "./moderation";
+
+const SIMPLIFY_BATCH_SIZE = 30;
+
+const PROVIDERS: Record<AIProviderName, AIProvider> = {
+  gemini: geminiProvider,
+  local: localProvider
 };
 
-export const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+// AI_PROVIDER wins when set; without an API key we fall back to the offline provider
+let activeProvider: AIProvider =
+  PROVIDERS[process.env.AI_PROVIDER as AIProviderName] || (process.env.API_KEY ? geminiProvider : localProvider);
+
+export const getAIProvider = () => activeProvider;
+
+export const setAIProvider = (name: AIProviderName) => {
+  activeProvider = PROVIDERS[name];
+};
 
 let globalAudioContext: AudioContext | null = null;
 
@@ -81,125 +86,351 @@ export async function decodeAudioData(
   return buffer;
 }
 
-export async function extractTextFromMedia(base64Data: string, mimeType: string, lang: Language): Promise<string> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: {
-      parts: [
-        { inlineData: { data: base64Data, mimeType: mimeType } },
-        { text: `TASK: Literal transcription. 
-        Language: ${lang}.
-        Extract all text word-for-word. Keep structure. No summarizing.` }
-      ]
-    }
+export const extractTextFromMedia = (base64Data: string, mimeType: string, lang: Language): Promise<string> =>
+  activeProvider.extractTextFromMedia(base64Data, mimeType, lang);
+
+// Long books are checked in parts the model can take at once
+const MODERATION_CHUNK_CHARS = 12000;
+
+const MODERATION_CATEGORIES = ['violence', 'sexual', 'language', 'fear', 'self_harm', 'drugs', 'hate'];
+const MODERATION_SEVERITIES = ['low', 'medium', 'high'];
+
+const moderationChunks = (text: string) => {
+  const chunks: { start: number; end: number }[] = [];
+  for (const sentence of splitSentences(text)) {
+    const last = chunks[chunks.length - 1];
+    if (last && sentence.end - last.start <= MODERATION_CHUNK_CHARS) last.end = sentence.end;
+    else chunks.push({ start: sentence.start, end: sentence.end });
+  }
+  return chunks;
+};
+
+// Every finding, whatever the age band; the band only decides what counts
+const findModerationFlags = async (text: string, lang: Language): Promise<ModerationFlag[]> => {
+  const chunks = moderationChunks(text);
+  const findings = await mapWithConcurrency(chunks, 2, chunk => activeProvider.moderateText(text.slice(chunk.start, chunk.end), lang));
+  const flags = chunks.flatMap((chunk, i) => locateFindings(
+    text.slice(chunk.start, chunk.end),
+    (Array.isArray(findings[i]) ? findings[i] : []).filter(f => MODERATION_CATEGORIES.includes(f?.category) && MODERATION_SEVERITIES.includes(f?.severity)),
+    chunk.start
+  ));
+  return flags.filter((f, i) => flags.findIndex(other => other.start === f.start && other.end === f.end && other.category === f.category) === i);
+};
+
+// Switching readers judges the open document again without a new check
+let lastModeration: { text: string; lang: Language; flags: ModerationFlag[] } | null = null;
+
+// Safety check of an uploaded text for the active reader's age band
+export async function moderateText(text: string, lang: Language): Promise<ModerationVerdict> {
+  if (lastModeration?.text !== text || lastModeration.lang !== lang) {
+    lastModeration = { text, lang, flags: await findModerationFlags(text, lang) };
+  }
+  return judgeFlags(lastModeration.flags, text.length);
+}
+
+const OUTPUT_SEPARATOR = '\n\n';
+
+// Generated texts are checked together in one request. A verdict that blocks
+// throws ContentBlockedError; otherwise the texts come back with flagged spans masked.
+const moderateOutputs = async (texts: string[], lang: Language): Promise<string[]> => {
+  const joined = texts.join(OUTPUT_SEPARATOR);
+  if (!joined.trim()) return texts;
+  const verdict = judgeFlags(await findModerationFlags(joined, lang), joined.length);
+  if (verdict.action === 'block') throw new ContentBlockedError(verdict);
+  let offset = 0;
+  return texts.map(t => {
+    const safe = redactText(t, verdict.flags, offset);
+    offset += t.length + OUTPUT_SEPARATOR.length;
+    return safe;
   });
-  return response.text || "";
+};
+
+export interface StreamCheck {
+  // `text` is the whole output so far. Its complete sentences that were not
+  // checked yet are checked; with `final`, the rest too. Resolves with all the
+  // text checked so far, redacted, and rejects with ContentBlockedError.
+  push: (text: string, final?: boolean) => Promise<string>;
 }
 
-export async function generateSimpleSummary(text: string, lang: Language): Promise<string[]> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `${getSafetyPrompt(lang)}\nSummarize in 3 bullet points for kids in language ${lang}. Only JSON array:\n\n${text}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
+// Streamed output is checked sentence by sentence as it grows, so only text
+// that passed can be shown or spoken. The verdict covers everything so far,
+// and text once returned is never redacted differently later.
+export function createStreamCheck(lang: Language): StreamCheck {
+  let source = '';
+  let checked = '';
+  const flags: ModerationFlag[] = [];
+  let queue = Promise.resolve('');
+
+  const checkUpTo = async (end: number) => {
+    const start = checked.length;
+    if (end <= start) return checked;
+    const piece = source.slice(start, end);
+    const pieceFlags = (await findModerationFlags(piece, lang)).map(f => ({ ...f, start: f.start + start, end: f.end + start }));
+    const verdict = judgeFlags([...flags, ...pieceFlags], end);
+    if (verdict.action === 'block') throw new ContentBlockedError(verdict);
+    flags.push(...pieceFlags);
+    checked += redactText(piece, verdict.flags, start);
+    return checked;
+  };
+
+  return {
+    push: (text, final = false) => {
+      source = text;
+      queue = queue.then(() => {
+        const sentences = splitSentences(source);
+        return checkUpTo(final ? source.length : sentences.length > 1 ? sentences[sentences.length - 2].end : 0);
+      });
+      return queue;
     }
-  });
-  try { return JSON.parse(response.text || "[]"); } catch { return ["..."]; }
+  };
 }
 
+export async function generateSimpleSummary(text: string, lang: Language): Promise<string[]> {
+  return moderateOutputs(await activeProvider.generateSimpleSummary(text, lang), lang);
+}
+
+// A question with hidden words would make no sense, so it is left out
 export async function generateSuggestedQuestions(text: string, lang: Language): Promise<string[]> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `${getSafetyPrompt(lang)}\n3 short questions for kids about this text in language ${lang}. Only JSON array:\n\n${text}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: { type: Type.STRING }
-      }
-    }
+  const questions = await moderateOutputs(await activeProvider.generateSuggestedQuestions(text, lang), lang);
+  return questions.filter(q => !isRedacted(q));
+}
+
+const MAX_HISTORY_MESSAGES = 20;
+
+const CITATION_PATTERN = /\s*\[(\d+(?:\s*,\s*\d+)*)\]/g;
+
+// Turns the "[2]" markers of an answer into citations and removes them from
+// the text that is shown and spoken
+const extractCitations = (answer: string, passages: DocumentPassage[]) => {
+  const cited = new Set<number>();
+  const text = answer.replace(CITATION_PATTERN, (_, list: string) => {
+    for (const n of list.split(',')) if (passages[Number(n) - 1]) cited.add(Number(n) - 1);
+    return '';
+  }).trim();
+  return { text, citations: Array.from(cited).sort((a, b) => a - b).map(i => passages[i]) };
+};
+
+// The answer so far as it can be shown: markers and a marker still being
+// written are left out
+const visibleAnswer = (answer: string) => answer.replace(CITATION_PATTERN, '').replace(/\s*\[[\d,\s]*$/, '').trim();
+
+export interface ChatStreamOptions {
+  // Called with the answer so far each time another sentence of it passed the
+  // safety check; it only ever grows by whole sentences
+  onText?: (text: string) => void;
+  // Aborting keeps the part of the answer that was already written
+  signal?: AbortSignal;
+}
+
+// Passages are looked up for the question and, for follow-ups like "and then
+// what?", for the question before it. An answer without markers cites the
+// passage that best matches the question.
+export async function chatWithDocument(text: string, history: ChatMessage[], userMessage: string, lang: Language, options: ChatStreamOptions = {}): Promise<ChatMessage> {
+  const previous = history.filter(m => m.role === 'user').pop()?.text;
+  const ranked = findPassages(text, userMessage, 3);
+  const found = [...ranked, ...(previous ? findPassages(text, previous, 1) : [])];
+  const passages = found
+    .filter((p, i) => found.findIndex(other => other.start === p.start) === i)
+    .sort((a, b) => a.start - b.start);
+  const turns = history.slice(-MAX_HISTORY_MESSAGES).map(({ role, text }) => ({ role, text }));
+  const check = createStreamCheck(lang);
+  // A blocked sentence stops the answer as well as the caller's signal
+  const generation = new AbortController();
+  const stop = () => generation.abort();
+  options.signal?.addEventListener('abort', stop);
+  let answer = '';
+  let shown = '';
+  try {
+    answer = await activeProvider.chatWithDocument(turns, userMessage, passages, lang, chunk => {
+      answer += chunk;
+      check.push(visibleAnswer(answer)).then(text => {
+        if (text && text !== shown) options.onText?.(shown = text);
+      }, stop);
+    }, generation.signal);
+  } catch (err) {
+    if (!generation.signal.aborted) throw err;
+  } finally {
+    options.signal?.removeEventListener('abort', stop);
+  }
+  // The reply is exactly the checked text, so it matches what was already
+  // shown. A check that failed while streaming fails here again.
+  const reply = await check.push(visibleAnswer(answer), true);
+  const { citations } = extractCitations(answer, passages);
+  return { role: 'model', text: reply, citations: citations.length ? citations : ranked.slice(0, 1) };
+}
+
+// Sentences go out in batches so long books fit the model; alignment is kept
+// per batch and a missing rewrite falls back to the original sentence.
+export async function simplifyText(text: string, level: ReadingLevel, lang: Language): Promise<AlignedSentence[]> {
+  const sentences = splitSentences(text).map(s => s.text);
+  const batches: string[][] = [];
+  for (let i = 0; i < sentences.length; i += SIMPLIFY_BATCH_SIZE) batches.push(sentences.slice(i, i + SIMPLIFY_BATCH_SIZE));
+  const rewritten = await mapWithConcurrency(batches, 2, batch => activeProvider.simplifySentences(batch, level, lang));
+  const aligned = batches.flatMap((batch, b) =>
+    batch.map((original, i) => ({ original, simplified: rewritten[b][i]?.trim() || original }))
+  );
+  const safe = await moderateOutputs(aligned.map(s => s.simplified), lang);
+  return aligned.map((s, i) => ({ ...s, simplified: safe[i] }));
+}
+
+export async function defineWord(word: string, context: string, lang: Language): Promise<WordDefinition> {
+  const entry = await activeProvider.defineWord(word, context, lang);
+  const [definition, example] = await moderateOutputs([entry.definition, entry.example], lang);
+  return { ...entry, definition, example };
+}
+
+// Model output is checked item by item so the quiz screen never gets an
+// unanswerable question
+const isPlayableQuizItem = (item: QuizItem) => {
+  if (!item?.question || !Array.isArray(item.options)) return false;
+  if (item.type === 'multiple_choice') return item.options.length >= 2 && item.answer >= 0 && item.answer < item.options.length;
+  if (item.type === 'true_false') return item.answer === 0 || item.answer === 1;
+  if (item.type === 'sequence') return item.options.length >= 2;
+  return false;
+};
+
+export async function generateQuiz(text: string, lang: Language): Promise<QuizItem[]> {
+  const items = await activeProvider.generateQuiz(text, lang);
+  const playable = (Array.isArray(items) ? items : []).filter(isPlayableQuizItem);
+  // Items touching anything that had to be hidden are dropped whole
+  const safe = await moderateOutputs(playable.map(item => [item.question, ...item.options, item.explanation, item.passage || ''].join('\n')), lang);
+  return playable.filter((_, i) => !isRedacted(safe[i]));
+}
+
+const BUBBLE_POSITIONS: BubblePosition[] = ['top-left', 'top-right', 'bottom-left', 'bottom-right'];
+
+// Bubbles without a usable position take the corners in turn so they never overlap
+const normalizeScene = (scene: ComicScene): ComicScene => ({
+  ...scene,
+  captions: (Array.isArray(scene.captions) ? scene.captions : [])
+    .filter(c => c?.text)
+    .map(c => ({ text: c.text, position: c.position === 'bottom' ? 'bottom' : 'top' })),
+  dialogue: (Array.isArray(scene.dialogue) ? scene.dialogue : [])
+    .filter(d => d?.text)
+    .map((d, i) => ({ speaker: d.speaker || '', text: d.text, position: BUBBLE_POSITIONS.includes(d.position) ? d.position : BUBBLE_POSITIONS[i % 4] }))
+});
+
+// The returned sheet holds the known characters first, then the new ones
+export async function generateComicScript(text: string, lang: Language, panelCount: number, knownCharacters: ComicCharacter[] = []): Promise<ComicScript> {
+  const script = await activeProvider.generateComicScript(text, lang, panelCount, knownCharacters);
+  const found = Array.isArray(script?.characters) ? script.characters.filter(c => c?.name) : [];
+  const scenes = Array.isArray(script?.scenes) ? script.scenes.filter(s => s?.description).slice(0, panelCount).map(normalizeScene) : [];
+  const safe = await moderateOutputs(scenes.flatMap(s => [s.description, ...s.captions!.map(c => c.text), ...s.dialogue!.map(d => d.text)]), lang);
+  let next = 0;
+  return {
+    characters: [...knownCharacters, ...found.filter(c => !knownCharacters.some(k => k.name === c.name))],
+    scenes: scenes.map(s => ({
+      ...s,
+      description: safe[next++],
+      captions: s.captions!.map(c => ({ ...c, text: safe[next++] })),
+      dialogue: s.dialogue!.map(d => ({ ...d, text: safe[next++] }))
+    }))
+  };
+}
+
+export const generateSceneImage = (scene: ComicScene, options: SceneImageOptions): Promise<string> =>
+  activeProvider.generateSceneImage(scene, options);
+
+// Narration is cached by content, so replays are instant and work offline;
+// hidden words are left out of what is read aloud
+export async function generateSpeech(original: string, lang: Language, options?: SpeechOptions): Promise<string> {
+  const text = withoutRedactions(original);
+  const provider = activeProvider;
+  const voice = options?.voice && provider.speechVoices.includes(options.voice) ? options.voice : provider.defaultVoices[lang];
+  const style = options?.style || 'neutral';
+  const key = await speechCacheKey({
+    provider: provider.name,
+    model: provider.speechModel,
+    voice,
+    style,
+    lang,
+    text
   });
-  try { return JSON.parse(response.text || "[]"); } catch { return []; }
+  const cached = await getCachedSpeech(key);
+  if (cached) return cached;
+  const audio = await provider.generateSpeech(text, lang, { voice, style });
+  if (audio) putCachedSpeech(key, audio);
+  return audio;
 }
 
-export async function chatWithDocument(text: string, userMessage: string, lang: Language) {
-  const ai = getAI();
-  const chat = ai.chats.create({
-    model: 'gemini-3-flash-preview',
-    config: {
-      systemInstruction: `${getSafetyPrompt(lang)}\nFriendly response about: "${text.substring(0, 1500)}"`,
+// Splits a dramatized reading into runs the provider can voice in one call
+const groupBySpeakers = (lines: DialogueLine[], maxSpeakers: number) => {
+  const groups: DialogueLine[][] = [];
+  let speakers = new Set<string>();
+  for (const line of lines) {
+    if (!speakers.has(line.speaker) && speakers.size >= maxSpeakers) {
+      groups.push([]);
+      speakers = new Set();
     }
-  });
-  const result = await chat.sendMessage({ message: userMessage });
-  return result.text || "!";
-}
-
-export async function generateComicScenes(text: string, lang: Language): Promise<ComicScene[]> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `${getSafetyPrompt(lang)}\nCreate 4 comic scenes for kids about this text. Descriptions in language ${lang}. Only JSON array of objects {description, keywords}:\n\n${text}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.ARRAY,
-        items: {
-          type: Type.OBJECT,
-          properties: {
-            description: { type: Type.STRING },
-            keywords: { type: Type.ARRAY, items: { type: Type.STRING } }
-          },
-          required: ["description", "keywords"]
-        }
-      }
+    if (!groups.length) groups.push([]);
+    speakers.add(line.speaker);
+    groups[groups.length - 1].push(line);
+  }
+  return groups;
+};
+
+// Same caching as generateSpeech, per group of lines; the groups' PCM is joined
+export async function generateDialogueSpeech(lines: DialogueLine[], lang: Language, voices: Record<string, string>, options?: SpeechOptions): Promise<string> {
+  const provider = activeProvider;
+  const style = options?.style || 'neutral';
+  const parts: Uint8Array[] = [];
+  const spoken = lines.map(l => ({ ...l, text: withoutRedactions(l.text) })).filter(l => l.text.trim());
+  for (const group of groupBySpeakers(spoken, provider.maxDialogueSpeakers)) {
+    const speakers = Array.from(new Set(group.map(l => l.speaker)));
+    const key = await speechCacheKey({
+      provider: provider.name,
+      model: provider.speechModel,
+      voice: speakers.map(s => `${s}=${voices[s]}`).join('|'),
+      style,
+      lang,
+      text: group.map(l => `${l.speaker}: ${l.text}`).join('\n')
+    });
+    let audio = await getCachedSpeech(key);
+    if (!audio) {
+      audio = await provider.generateDialogueSpeech(group, lang, voices, style);
+      if (audio) putCachedSpeech(key, audio);
     }
-  });
-  try { return JSON.parse(response.text || "[]"); } catch { return []; }
+    if (audio) parts.push(decode(audio));
+  }
+  const joined = new Uint8Array(parts.reduce((acc, p) => acc + p.length, 0));
+  parts.reduce((offset, p) => { joined.set(p, offset); return offset + p.length; }, 0);
+  return encode(joined);
 }
 
-export async function generateSceneImage(scene: ComicScene): Promise<string> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-2.5-flash-image',
-    contents: {
-      parts: [{ text: `Children story illustration, Pixar style, friendly, colorful: ${scene.description}.` }]
-    },
-    config: { imageConfig: { aspectRatio: "1:1" } }
-  });
-  for (const part of response.candidates?.[0]?.content?.parts || []) {
-    if (part.inlineData) return `data:image/png;base64,${part.inlineData.data}`;
+// The narrator keeps the reader's voice; characters get the other voices in
+// turn, in the order they are listed
+export function assignDialogueVoices(speakers: string[], lang: Language, options?: SpeechOptions): Record<string, string> {
+  const provider = activeProvider;
+  const narrator = options?.voice && provider.speechVoices.includes(options.voice) ? options.voice : provider.defaultVoices[lang];
+  const others = provider.speechVoices.filter(v => v !== narrator);
+  const voices: Record<string, string> = { '': narrator };
+  let next = 0;
+  for (const speaker of speakers) {
+    if (speaker in voices) continue;
+    voices[speaker] = others.length ? others[next++ % others.length] : narrator;
   }
-  return "";
-}
-
-export async function generateSpeech(text: string, lang: Language): Promise<string> {
-  const ai = getAI();
-  // Using generic voice 'Kore' as it's multilingual-friendly or defaults reasonably
-  const response = await ai.models.generateContent({
-    model: "gemini-2.5-flash-preview-tts",
-    contents: [{ parts: [{ text: text }] }],
-    config: {
-      responseModalities: [Modality.AUDIO],
-      speechConfig: {
-        voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } }
-      }
-    }
-  });
-  return response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data || "";
+  return voices;
 }
 
+export const getSpeechVoices = () => activeProvider.speechVoices;
+
+export const getDefaultVoice = (lang: Language) => activeProvider.defaultVoices[lang];
+
+export const speechOptionsFor = (settings: ReaderSettings | undefined, lang: Language): SpeechOptions => ({
+  voice: settings?.voices?.[lang],
+  style: settings?.narratorStyle
+});
+
 export async function generateVideoPrompt(text: string, lang: Language): Promise<string> {
-  const ai = getAI();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-flash-preview',
-    contents: `${getSafetyPrompt(lang)}\nGenerate an English video generation prompt based on this text: ${text.substring(0, 500)}`,
-  });
-  return response.text || "Magical forest animation.";
-}
\ No newline at end of file
+  const [prompt] = await moderateOutputs([await activeProvider.generateVideoPrompt(text, lang)], lang);
+  return withoutRedactions(prompt);
+}
+
+export const ensureVideoAccess = (): Promise<void> =>
+  activeProvider.ensureVideoAccess();
+
+export const generateVideo = (prompt: string): Promise<string> =>
+  activeProvider.generateVideo(prompt);
+
+export const connectLive = (options: LiveOptions) =>
+  activeProvider.connectLive(options);
@@ -0,0 +1,109 @@
+import { AlignedSentence, DocumentArtifacts, DocumentPage, Language, LibraryDocument, ReadingLevel } from "../types";
+import { requestToPromise, withStore } from "./db";
+import { audienceKey } from "./moderation";
+
+const STORE = 'documents';
+
+const titleFromFileName = (fileName: string) => fileName.replace(/\.[^.]+$/, '') || fileName;
+
+export async function listDocuments(): Promise<LibraryDocument[]> {
+  const docs = await withStore(STORE, 'readonly', store => requestToPromise<LibraryDocument[]>(store.getAll()));
+  return docs.sort((a, b) => b.updatedAt - a.updatedAt);
+}
+
+export async function getDocument(id: string): Promise<LibraryDocument | undefined> {
+  return withStore(STORE, 'readonly', store => requestToPromise<LibraryDocument | undefined>(store.get(id)));
+}
+
+export async function createDocument(text: string, fileName: string, pages?: DocumentPage[]): Promise<LibraryDocument> {
+  const now = Date.now();
+  const doc: LibraryDocument = {
+    id: `${now.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    title: titleFromFileName(fileName),
+    originalFileName: fileName,
+    text,
+    pages,
+    createdAt: now,
+    updatedAt: now,
+    artifacts: {}
+  };
+  await withStore(STORE, 'readwrite', store => requestToPromise(store.put(doc)));
+  return doc;
+}
+
+// Read-modify-write inside a single transaction so concurrent saves do not clobber each other
+async function updateDocument(id: string, change: (doc: LibraryDocument) => LibraryDocument) {
+  await withStore(STORE, 'readwrite', async store => {
+    const doc = await requestToPromise<LibraryDocument | undefined>(store.get(id));
+    if (!doc) return;
+    await requestToPromise(store.put({ ...change(doc), updatedAt: Date.now() }));
+  });
+}
+
+export async function renameDocument(id: string, title: string) {
+  await updateDocument(id, doc => ({ ...doc, title: title.trim() || doc.title }));
+}
+
+export async function deleteDocument(id: string) {
+  await withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+}
+
+// Generated material is kept per language and audience; material saved before
+// audiences existed was never checked and is not read back
+const changeAudienceArtifacts = (
+  doc: LibraryDocument,
+  lang: Language,
+  audience: string,
+  change: (current: DocumentArtifacts) => DocumentArtifacts
+): LibraryDocument => {
+  const langArtifacts = doc.artifacts[lang] || {};
+  const current = langArtifacts.audiences?.[audience] || {};
+  return {
+    ...doc,
+    artifacts: { ...doc.artifacts, [lang]: { ...langArtifacts, audiences: { ...langArtifacts.audiences, [audience]: change(current) } } }
+  };
+};
+
+// With a reading level, artifacts belong to that simplified rewrite of the document
+export async function loadArtifacts(id: string | undefined, lang: Language, level?: ReadingLevel): Promise<DocumentArtifacts> {
+  if (!id) return {};
+  try {
+    const audience = audienceKey();
+    const doc = await getDocument(id);
+    const artifacts = doc?.artifacts[lang]?.audiences?.[audience] || {};
+    return level ? artifacts.levels?.[level] || {} : artifacts;
+  } catch (err) {
+    console.error("No se pudo leer la biblioteca:", err);
+    return {};
+  }
+}
+
+export async function saveArtifacts(
+  id: string | undefined,
+  lang: Language,
+  changes: Partial<DocumentArtifacts>,
+  level?: ReadingLevel
+) {
+  if (!id) return;
+  try {
+    const audience = audienceKey();
+    await updateDocument(id, doc => changeAudienceArtifacts(doc, lang, audience, current => level
+      ? { ...current, levels: { ...current.levels, [level]: { ...current.levels?.[level], ...changes } } }
+      : { ...current, ...changes }
+    ));
+  } catch (err) {
+    console.error("No se pudo guardar en la biblioteca:", err);
+  }
+}
+
+export async function saveSimplified(id: string | undefined, lang: Language, level: ReadingLevel, sentences: AlignedSentence[]) {
+  if (!id) return;
+  try {
+    const audience = audienceKey();
+    await updateDocument(id, doc => changeAudienceArtifacts(doc, lang, audience, current => (
+      { ...current, simplified: { ...current.simplified, [level]: sentences } }
+    )));
+  } catch (err) {
+    console.error("No se pudo guardar en la biblioteca:", err);
+  }
+}
@@ -0,0 +1,153 @@
+import { decode, decodeAudioData, encode } from "./geminiService";
+
+// Live sessions take 16 kHz PCM in and give 24 kHz PCM back
+const INPUT_SAMPLE_RATE = 16000;
+const OUTPUT_SAMPLE_RATE = 24000;
+
+// Microphone audio goes out in 100 ms frames
+const FRAME_SAMPLES = 1600;
+
+// Runs on the audio thread: brings the microphone down from the device rate
+// to 16 kHz (averaging the samples each output sample stands for), converts it
+// to 16-bit PCM frames and measures how loud each frame was
+const CAPTURE_WORKLET = `
+class MicCaptureProcessor extends AudioWorkletProcessor {
+  constructor() {
+    super();
+    this.ratio = sampleRate / ${INPUT_SAMPLE_RATE};
+    this.position = 0;
+    this.sum = 0;
+    this.count = 0;
+    this.frame = new Int16Array(${FRAME_SAMPLES});
+    this.length = 0;
+    this.energy = 0;
+  }
+  process(inputs) {
+    const channel = inputs[0] && inputs[0][0];
+    if (!channel) return true;
+    for (let i = 0; i < channel.length; i++) {
+      this.sum += channel[i];
+      this.count++;
+      this.position++;
+      if (this.position < this.ratio) continue;
+      this.position -= this.ratio;
+      const s = Math.max(-1, Math.min(1, this.sum / this.count));
+      this.sum = 0;
+      this.count = 0;
+      this.frame[this.length++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+      this.energy += s * s;
+      if (this.length === this.frame.length) {
+        const level = Math.sqrt(this.energy / this.length);
+        this.port.postMessage({ pcm: this.frame.buffer, level }, [this.frame.buffer]);
+        this.frame = new Int16Array(${FRAME_SAMPLES});
+        this.length = 0;
+        this.energy = 0;
+      }
+    }
+    return true;
+  }
+}
+registerProcessor('mic-capture', MicCaptureProcessor);
+`;
+
+export interface MicCapture {
+  // Releases the microphone and closes the audio context
+  stop: () => void;
+}
+
+// `onAudio` gets each frame as base64 PCM together with its loudness (RMS, 0-1)
+export async function startMicCapture(onAudio: (base64Pcm: string, level: number) => void): Promise<MicCapture> {
+  const stream = await navigator.mediaDevices.getUserMedia({
+    audio: { echoCancellation: true, noiseSuppression: true, autoGainControl: true }
+  });
+  // The context runs at the device rate: some browsers refuse to connect a
+  // microphone to a context at another rate
+  const ctx = new AudioContext();
+  const stop = () => {
+    stream.getTracks().forEach(track => track.stop());
+    ctx.close().catch(() => undefined);
+  };
+  try {
+    const moduleUrl = URL.createObjectURL(new Blob([CAPTURE_WORKLET], { type: 'application/javascript' }));
+    try {
+      await ctx.audioWorklet.addModule(moduleUrl);
+    } finally {
+      URL.revokeObjectURL(moduleUrl);
+    }
+    const source = ctx.createMediaStreamSource(stream);
+    const capture = new AudioWorkletNode(ctx, 'mic-capture', { numberOfInputs: 1, numberOfOutputs: 0, channelCount: 1 });
+    capture.port.onmessage = (e: MessageEvent<{ pcm: ArrayBuffer; level: number }>) => {
+      onAudio(encode(new Uint8Array(e.data.pcm)), e.data.level);
+    };
+    source.connect(capture);
+    return {
+      stop: () => {
+        capture.port.onmessage = null;
+        source.disconnect();
+        stop();
+      }
+    };
+  } catch (err) {
+    stop();
+    throw err;
+  }
+}
+
+export interface PcmPlayer {
+  // Queues a chunk right after the previous one, without gaps
+  play: (base64Pcm: string) => void;
+  // Drops everything queued or playing
+  interrupt: () => void;
+  isPlaying: () => boolean;
+  close: () => void;
+}
+
+export function createPcmPlayer(onPlayingChange?: (playing: boolean) => void): PcmPlayer {
+  const ctx = new AudioContext({ sampleRate: OUTPUT_SAMPLE_RATE });
+  const sources = new Set<AudioBufferSourceNode>();
+  let nextStartTime = 0;
+  // Chunks are decoded in arrival order; an interrupt makes pending ones stale
+  let queue = Promise.resolve();
+  let generation = 0;
+
+  const setPlaying = () => onPlayingChange?.(sources.size > 0);
+
+  return {
+    play: (base64Pcm) => {
+      const chunkGeneration = generation;
+      queue = queue.then(async () => {
+        if (chunkGeneration !== generation || ctx.state === 'closed') return;
+        if (ctx.state === 'suspended') await ctx.resume();
+        const buffer = await decodeAudioData(decode(base64Pcm), ctx, OUTPUT_SAMPLE_RATE);
+        if (chunkGeneration !== generation) return;
+        const source = ctx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(ctx.destination);
+        source.onended = () => {
+          sources.delete(source);
+          setPlaying();
+        };
+        nextStartTime = Math.max(nextStartTime, ctx.currentTime);
+        source.start(nextStartTime);
+        nextStartTime += buffer.duration;
+        sources.add(source);
+        setPlaying();
+      }).catch(err => console.error("Error al reproducir la voz del tutor:", err));
+    },
+    interrupt: () => {
+      generation++;
+      sources.forEach(s => { s.onended = null; try { s.stop(); } catch (e) {} });
+      sources.clear();
+      nextStartTime = 0;
+      setPlaying();
+    },
+    isPlaying: () => sources.size > 0,
+    close: () => {
+      generation++;
+      sources.forEach(s => { s.onended = null; try { s.stop(); } catch (e) {} });
+      sources.clear();
+      ctx.close().catch(() => undefined);
+      setPlaying();
+    }
+  };
+}
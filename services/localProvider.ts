@@ -0,0 +1,412 @@
+import { ComicCharacter, ComicScene, DialogueLine, Language, ModerationCategory, ModerationFinding, ModerationSeverity, NarratorStyle, QuizItem, ReadingLevel, SceneImageOptions, SpeechOptions } from "../types";
+import { AIProvider, LiveSession } from "./aiProvider";
+import { splitSentences } from "./textSegments";
+
+// Offline stand-in for development, demos and tests. Every answer is derived
+// from the input alone, so the same text always produces the same output.
+
+const SAMPLE_STORY: Record<Language, string> = {
+  es: "Había una vez un zorro llamado Lino que vivía en el bosque. Una mañana encontró un mapa junto al río. El mapa mostraba el camino hacia una montaña de colores. Lino invitó a su amiga la tortuga a la aventura. Juntas cruzaron el puente y subieron la colina. Al llegar arriba vieron el arcoíris más grande del mundo.",
+  en: "Once upon a time there was a fox named Lino who lived in the forest. One morning he found a map by the river. The map showed the way to a mountain of colors. Lino invited his friend the turtle to the adventure. Together they crossed the bridge and climbed the hill. At the top they saw the biggest rainbow in the world.",
+  pt: "Era uma vez uma raposa chamada Lino que vivia na floresta. Uma manhã encontrou um mapa perto do rio. O mapa mostrava o caminho para uma montanha de cores. Lino convidou sua amiga tartaruga para a aventura. Juntas atravessaram a ponte e subiram a colina. No alto viram o maior arco-íris do mundo.",
+  de: "Es war einmal ein Fuchs namens Lino, der im Wald lebte. Eines Morgens fand er eine Karte am Fluss. Die Karte zeigte den Weg zu einem Berg aus Farben. Lino lud seine Freundin, die Schildkröte, zum Abenteuer ein. Zusammen überquerten sie die Brücke und kletterten auf den Hügel. Oben sahen sie den größten Regenbogen der Welt."
+};
+
+const QUESTIONS: Record<Language, string[]> = {
+  es: ["¿Quién es el personaje principal?", "¿Qué pasa al principio de la historia?", "¿Cómo termina la historia?"],
+  en: ["Who is the main character?", "What happens at the beginning of the story?", "How does the story end?"],
+  pt: ["Quem é o personagem principal?", "O que acontece no começo da história?", "Como termina a história?"],
+  de: ["Wer ist die Hauptfigur?", "Was passiert am Anfang der Geschichte?", "Wie endet die Geschichte?"]
+};
+
+const CHAT_PREFIX: Record<Language, string> = {
+  es: "¡Buena pregunta! En la historia dice:",
+  en: "Good question! The story says:",
+  pt: "Boa pergunta! A história diz:",
+  de: "Gute Frage! In der Geschichte steht:"
+};
+
+const WORD_DEFINITION: Record<Language, string> = {
+  es: '"{word}" es una palabra de la historia.',
+  en: '"{word}" is a word from the story.',
+  pt: '"{word}" é uma palavra da história.',
+  de: '"{word}" ist ein Wort aus der Geschichte.'
+};
+
+const QUIZ_PROMPTS: Record<Language, { missingWord: string; trueOrFalse: string; sequence: string; explanation: string }> = {
+  es: { missingWord: "¿Qué palabra falta?", trueOrFalse: "¿Verdadero o falso?", sequence: "Ordena lo que pasa en la historia.", explanation: "Lo dice el texto." },
+  en: { missingWord: "Which word is missing?", trueOrFalse: "True or false?", sequence: "Put what happens in the story in order.", explanation: "The text says so." },
+  pt: { missingWord: "Qual palavra está faltando?", trueOrFalse: "Verdadeiro ou falso?", sequence: "Coloque o que acontece na história em ordem.", explanation: "O texto diz isso." },
+  de: { missingWord: "Welches Wort fehlt?", trueOrFalse: "Richtig oder falsch?", sequence: "Bringe die Ereignisse der Geschichte in die richtige Reihenfolge.", explanation: "Das steht im Text." }
+};
+
+const CHARACTER_APPEARANCE: Record<Language, string> = {
+  es: "Personaje de la historia, dibujado siempre con los mismos colores.",
+  en: "Character from the story, always drawn in the same colors.",
+  pt: "Personagem da história, sempre desenhado com as mesmas cores.",
+  de: "Figur aus der Geschichte, immer in denselben Farben gezeichnet."
+};
+
+const LIVE_QUESTION: Record<Language, string> = {
+  es: "¿De qué trata la historia?",
+  en: "What is the story about?",
+  pt: "Sobre o que é a história?",
+  de: "Worum geht es in der Geschichte?"
+};
+
+const LOCAL_VOICES = ['tone-low', 'tone-mid', 'tone-high'];
+
+const VOICE_BASE_FREQUENCY: Record<string, number> = { 'tone-low': 180, 'tone-mid': 260, 'tone-high': 340 };
+
+// Only whole words match, accented letters included
+const wholeWords = (alternatives: string) => new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives})(?![\\p{L}\\p{N}])`, 'giu');
+
+// A small word list in the four languages, enough to try the safety screens offline
+const MODERATION_LEXICON: { category: ModerationCategory; severity: ModerationSeverity; pattern: RegExp }[] = [
+  { category: 'violence', severity: 'high', pattern: wholeWords('asesin\\p{L}*|murder\\p{L}*|ermord\\p{L}*|degoll\\p{L}*|decapit\\p{L}*|massacre|masacre') },
+  { category: 'violence', severity: 'medium', pattern: wholeWords('mat(?:ó|ar|aron)|kill(?:ed|s|ing)?|töte\\p{L}*|sangre|blood\\p{L}*|blut\\p{L}*|sangue|pistola|gun|waffe') },
+  { category: 'fear', severity: 'low', pattern: wholeWords('monstruo\\p{L}*|monster\\p{L}*|fantasma\\p{L}*|ghost\\p{L}*|gespenst\\p{L}*') },
+  { category: 'language', severity: 'medium', pattern: wholeWords('mierda|joder|shit|fuck\\p{L}*|scheiße|porra|merda') },
+  { category: 'drugs', severity: 'medium', pattern: wholeWords('droga\\p{L}*|drugs?|cocaína|cocaine|kokain') },
+  { category: 'self_harm', severity: 'high', pattern: wholeWords('suicid\\p{L}*|selbstmord') },
+  { category: 'sexual', severity: 'high', pattern: wholeWords('sexo|sex|porn\\p{L}*|desnud\\p{L}*|naked|nackt') }
+];
+
+const STYLE_WORD_SECONDS: Record<NarratorStyle, number> = { neutral: 0.28, calm: 0.36, storyteller: 0.32, cheerful: 0.24 };
+
+const LEVEL_MAX_WORDS: Record<ReadingLevel, number> = { easy: 8, grade2: 12, grade4: 18 };
+
+const SPEECH_SAMPLE_RATE = 24000;
+const LIVE_INPUT_SAMPLE_RATE = 16000;
+
+const hashString = (value: string) => {
+  let hash = 2166136261;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return hash >>> 0;
+};
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+};
+
+const sentenceTexts = (text: string) => splitSentences(text).map(s => s.text);
+
+const pickEvenly = <T,>(items: T[], count: number) => {
+  if (items.length <= count) return items;
+  return Array.from({ length: count }, (_, i) => items[Math.floor(i * items.length / count)]);
+};
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+
+// Quiz items are built around the longest word of a sentence
+const keyWord = (sentence: string) => {
+  let best = '';
+  for (const word of tokenize(sentence)) if (word.length > best.length) best = word;
+  return best;
+};
+
+const replaceWord = (sentence: string, word: string, replacement: string) => {
+  const at = sentence.toLowerCase().indexOf(word);
+  return at < 0 ? sentence : `${sentence.slice(0, at)}${replacement}${sentence.slice(at + word.length)}`;
+};
+
+const QUOTE_PATTERN = /[«"“„]([^»"”“]+)[»"”“]/;
+
+// Capitalised words outside quotes that do not start a sentence are taken as names
+const findCharacters = (text: string, lang: Language): ComicCharacter[] => {
+  const counts = new Map<string, number>();
+  for (const sentence of sentenceTexts(text)) {
+    const words = sentence.replace(/[«"“„][^»"”]*(?:[»"”]|$)/g, ' ').match(/[\p{L}]+/gu) || [];
+    for (const word of words.slice(1)) {
+      if (/^\p{Lu}\p{Ll}+$/u.test(word)) counts.set(word, (counts.get(word) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, 3)
+    .map(([name]) => ({ name, appearance: CHARACTER_APPEARANCE[lang] }));
+};
+
+// Quoted speech becomes a bubble for the first named character in the sentence
+const sceneText = (sentence: string, characters: ComicCharacter[]): Pick<ComicScene, 'captions' | 'dialogue'> => {
+  const quote = sentence.match(QUOTE_PATTERN);
+  if (!quote) return { captions: [{ text: sentence, position: 'top' }], dialogue: [] };
+  const narration = sentence.replace(quote[0], '').replace(/\s+([,.:;!?])/g, '$1').replace(/\s{2,}/g, ' ').trim();
+  const speaker = characters.find(c => sentence.includes(c.name))?.name || '';
+  return {
+    captions: /\p{L}/u.test(narration) ? [{ text: narration, position: 'top' }] : [],
+    dialogue: [{ speaker, text: quote[1].trim(), position: 'bottom-left' }]
+  };
+};
+
+const buildQuiz = (text: string, lang: Language): QuizItem[] => {
+  const sentences = sentenceTexts(text).filter(s => keyWord(s).length > 3);
+  const vocabulary = Array.from(new Set(tokenize(text).filter(w => w.length > 3)))
+    .sort((a, b) => hashString(a) - hashString(b));
+  const prompts = QUIZ_PROMPTS[lang];
+  const distractorsFor = (word: string, count: number) => vocabulary.filter(w => w !== word).slice(0, count);
+  const items: QuizItem[] = [];
+
+  for (const sentence of pickEvenly(sentences, 3)) {
+    const word = keyWord(sentence);
+    const options = [word, ...distractorsFor(word, 3)].sort((a, b) => hashString(a + sentence) - hashString(b + sentence));
+    items.push({
+      type: 'multiple_choice',
+      question: `${prompts.missingWord} "${replaceWord(sentence, word, '____')}"`,
+      options,
+      answer: options.indexOf(word),
+      explanation: prompts.explanation,
+      passage: sentence
+    });
+  }
+
+  const [trueSentence, falseSentence] = pickEvenly(sentences.slice().reverse(), 2);
+  if (trueSentence) {
+    items.push({ type: 'true_false', question: `${prompts.trueOrFalse} "${trueSentence}"`, options: [], answer: 0, explanation: prompts.explanation, passage: trueSentence });
+  }
+  const swap = falseSentence && distractorsFor(keyWord(falseSentence), 1)[0];
+  if (falseSentence && swap) {
+    items.push({
+      type: 'true_false',
+      question: `${prompts.trueOrFalse} "${replaceWord(falseSentence, keyWord(falseSentence), swap)}"`,
+      options: [],
+      answer: 1,
+      explanation: prompts.explanation,
+      passage: falseSentence
+    });
+  }
+
+  if (sentences.length >= 3) {
+    const events = pickEvenly(sentences, 4);
+    items.push({ type: 'sequence', question: prompts.sequence, options: events, answer: 0, explanation: prompts.explanation, passage: events.join(' ') });
+  }
+  return items;
+};
+
+const STREAM_WORD_MS = 60;
+
+const pauseSoon = () => new Promise(r => setTimeout(r, 150));
+
+// One short tone per word, a longer gap after punctuation. Durations track
+// the text length so narration timing behaves like a real voice.
+const synthesizeTones = (text: string, options?: SpeechOptions) => {
+  const words = text.split(/\s+/).filter(Boolean);
+  const baseFrequency = VOICE_BASE_FREQUENCY[options?.voice || ''] || VOICE_BASE_FREQUENCY['tone-mid'];
+  const wordSeconds = STYLE_WORD_SECONDS[options?.style || 'neutral'];
+  const gapSeconds = 0.06;
+  const pauseSeconds = 0.2;
+  const segments = words.map(w => ({
+    frequency: baseFrequency + (hashString(w) % 240),
+    pause: /[.!?,;:]$/.test(w) ? pauseSeconds : gapSeconds
+  }));
+  const totalSeconds = Math.max(0.3, segments.reduce((acc, s) => acc + wordSeconds + s.pause, 0));
+  const samples = new Int16Array(Math.ceil(totalSeconds * SPEECH_SAMPLE_RATE));
+  const toneSamples = Math.floor(wordSeconds * SPEECH_SAMPLE_RATE);
+  const fadeSamples = Math.floor(0.02 * SPEECH_SAMPLE_RATE);
+
+  let offset = 0;
+  for (const segment of segments) {
+    for (let i = 0; i < toneSamples && offset + i < samples.length; i++) {
+      const envelope = Math.min(1, i / fadeSamples, (toneSamples - i) / fadeSamples);
+      const value = Math.sin(2 * Math.PI * segment.frequency * i / SPEECH_SAMPLE_RATE) * envelope * 0.25;
+      samples[offset + i] = Math.round(value * 32767);
+    }
+    offset += toneSamples + Math.floor(segment.pause * SPEECH_SAMPLE_RATE);
+  }
+  return bytesToBase64(new Uint8Array(samples.buffer));
+};
+
+// `seed` varies the colours, e.g. per art style
+const placeholderImage = (label: string, seed = '') => {
+  const hue = hashString(label + seed) % 360;
+  const caption = label.length > 60 ? `${label.substring(0, 57)}...` : label;
+  const escaped = caption.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512" viewBox="0 0 512 512">
+<defs><linearGradient id="g" x1="0" y1="0" x2="1" y2="1">
+<stop offset="0" stop-color="hsl(${hue},80%,85%)"/><stop offset="1" stop-color="hsl(${(hue + 60) % 360},70%,70%)"/>
+</linearGradient></defs>
+<rect width="512" height="512" fill="url(#g)"/>
+<circle cx="256" cy="220" r="96" fill="hsl(${(hue + 180) % 360},70%,75%)" opacity="0.8"/>
+<text x="256" y="420" font-family="sans-serif" font-size="22" text-anchor="middle" fill="#334155">${escaped}</text>
+</svg>`;
+  return `data:image/svg+xml;base64,${bytesToBase64(new TextEncoder().encode(svg))}`;
+};
+
+// Records a few seconds of animated canvas so the video element has
+// something real to play.
+const renderPlaceholderVideo = async (prompt: string) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = 640;
+  canvas.height = 360;
+  const ctx = canvas.getContext('2d')!;
+  const recorder = new MediaRecorder(canvas.captureStream(30));
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>(resolve => { recorder.onstop = () => resolve(); });
+
+  const hue = hashString(prompt) % 360;
+  const frames = 90;
+  recorder.start();
+  for (let frame = 0; frame < frames; frame++) {
+    const progress = frame / frames;
+    const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+    gradient.addColorStop(0, `hsl(${(hue + progress * 90) % 360},80%,80%)`);
+    gradient.addColorStop(1, `hsl(${(hue + 120 + progress * 90) % 360},70%,60%)`);
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.fillStyle = 'rgba(255,255,255,0.7)';
+    for (let i = 0; i < 5; i++) {
+      const x = (i * 140 + progress * 200) % canvas.width;
+      const y = 180 + Math.sin(progress * Math.PI * 2 + i) * 80;
+      ctx.beginPath();
+      ctx.arc(x, y, 24, 0, Math.PI * 2);
+      ctx.fill();
+    }
+    await new Promise(r => setTimeout(r, 1000 / 30));
+  }
+  recorder.stop();
+  await stopped;
+  return URL.createObjectURL(new Blob(chunks, { type: recorder.mimeType || 'video/webm' }));
+};
+
+export const localProvider: AIProvider = {
+  name: 'local',
+  speechModel: 'local-tones',
+  speechVoices: LOCAL_VOICES,
+  defaultVoices: { es: 'tone-mid', en: 'tone-mid', pt: 'tone-mid', de: 'tone-mid' },
+  maxDialogueSpeakers: Infinity,
+
+  async extractTextFromMedia(_base64Data, _mimeType, lang) {
+    await pauseSoon();
+    return SAMPLE_STORY[lang];
+  },
+
+  async generateSimpleSummary(text, _lang) {
+    await pauseSoon();
+    return pickEvenly(sentenceTexts(text), 3);
+  },
+
+  async generateSuggestedQuestions(_text, lang) {
+    await pauseSoon();
+    return QUESTIONS[lang];
+  },
+
+  async chatWithDocument(_history, userMessage, passages, lang, onChunk, signal) {
+    await pauseSoon();
+    const questionWords = new Set(tokenize(userMessage).filter(w => w.length > 2));
+    const sentences = passages.flatMap((p, i) => sentenceTexts(p.text).map(text => ({ text, passage: i + 1 })));
+    let best = sentences[0];
+    let bestScore = 0;
+    for (const sentence of sentences) {
+      const score = tokenize(sentence.text).filter(w => questionWords.has(w)).length;
+      if (score > bestScore) { best = sentence; bestScore = score; }
+    }
+    const answer = best ? `${CHAT_PREFIX[lang]} "${best.text}" [${best.passage}]` : CHAT_PREFIX[lang];
+    // Written word by word like a streamed model answer
+    for (const word of answer.match(/\S+\s*/g) || []) {
+      if (signal?.aborted) throw new Error("Respuesta cancelada");
+      onChunk(word);
+      await new Promise(r => setTimeout(r, STREAM_WORD_MS));
+    }
+    return answer;
+  },
+
+  async moderateText(text, _lang) {
+    await pauseSoon();
+    const findings: ModerationFinding[] = [];
+    for (const { category, severity, pattern } of MODERATION_LEXICON) {
+      const words = new Set(Array.from(text.matchAll(pattern), m => m[0]));
+      words.forEach(quote => findings.push({ category, severity, quote }));
+    }
+    return findings;
+  },
+
+  async simplifySentences(sentences, level, _lang) {
+    await pauseSoon();
+    return sentences.map(sentence => {
+      const words = sentence.replace(/\s*\([^)]*\)/g, '').split(/\s+/).filter(Boolean);
+      if (words.length <= LEVEL_MAX_WORDS[level]) return words.join(' ');
+      return `${words.slice(0, LEVEL_MAX_WORDS[level]).join(' ').replace(/[,;:]$/, '')}.`;
+    });
+  },
+
+  async defineWord(word, context, lang) {
+    await pauseSoon();
+    return { word, definition: WORD_DEFINITION[lang].replace('{word}', word), example: context };
+  },
+
+  async generateQuiz(text, lang) {
+    await pauseSoon();
+    return buildQuiz(text, lang);
+  },
+
+  async generateComicScript(text, lang, panelCount) {
+    await pauseSoon();
+    const characters = findCharacters(text, lang);
+    const scenes = pickEvenly(sentenceTexts(text), panelCount).map(description => ({
+      description,
+      keywords: Array.from(new Set(tokenize(description)))
+        .sort((a, b) => b.length - a.length || a.localeCompare(b))
+        .slice(0, 3),
+      ...sceneText(description, characters)
+    }));
+    return { characters, scenes };
+  },
+
+  async generateSceneImage(scene: ComicScene, { style }: SceneImageOptions) {
+    await pauseSoon();
+    return placeholderImage(scene.description, style);
+  },
+
+  async generateSpeech(text, _lang, options) {
+    return synthesizeTones(text, options);
+  },
+
+  async generateDialogueSpeech(lines: DialogueLine[], _lang, voices, style) {
+    const parts = lines.map(l => atob(synthesizeTones(l.text, { voice: voices[l.speaker], style })));
+    return btoa(parts.join(''));
+  },
+
+  async generateVideoPrompt(text, _lang) {
+    return `Magical animation: ${sentenceTexts(text)[0] || "a friendly forest"}`;
+  },
+
+  async ensureVideoAccess() {},
+
+  async generateVideo(prompt) {
+    return renderPlaceholderVideo(prompt);
+  },
+
+  async connectLive({ lang, callbacks }) {
+    // Pretend the child asked a question after two seconds of microphone input
+    const turnSamples = LIVE_INPUT_SAMPLE_RATE * 2;
+    let receivedSamples = 0;
+    let closed = false;
+
+    setTimeout(() => { if (!closed) callbacks.onOpen?.(); }, 0);
+
+    const session: LiveSession = {
+      sendAudio: (base64Pcm) => {
+        if (closed) return;
+        receivedSamples += Math.floor(atob(base64Pcm).length / 2);
+        if (receivedSamples < turnSamples) return;
+        receivedSamples = 0;
+        callbacks.onInputTranscription?.(LIVE_QUESTION[lang]);
+        callbacks.onOutputTranscription?.(CHAT_PREFIX[lang]);
+        callbacks.onOutputAudio?.(synthesizeTones(CHAT_PREFIX[lang]));
+        callbacks.onTurnComplete?.();
+      },
+      close: () => {
+        if (closed) return;
+        closed = true;
+        callbacks.onClose?.();
+      }
+    };
+    return session;
+  }
+};
@@ -0,0 +1,108 @@
+import { AgeBand, ModerationFinding, ModerationFlag, ModerationSeverity, ModerationVerdict } from "../types";
+
+export const AGE_BANDS: AgeBand[] = ['4-6', '6-10', '10-14', 'teen'];
+
+export const DEFAULT_AGE_BAND: AgeBand = '6-10';
+
+const SEVERITY_RANK: Record<ModerationSeverity, number> = { low: 1, medium: 2, high: 3 };
+
+// From which severity a finding is hidden and from which the whole text is
+// refused. Teens see everything short of the most intense content.
+const AGE_BAND_LIMITS: Record<AgeBand, { redactFrom: ModerationSeverity; blockFrom?: ModerationSeverity }> = {
+  '4-6': { redactFrom: 'low', blockFrom: 'medium' },
+  '6-10': { redactFrom: 'low', blockFrom: 'high' },
+  '10-14': { redactFrom: 'medium', blockFrom: 'high' },
+  'teen': { redactFrom: 'high' }
+};
+
+// A text that would be mostly hidden is refused instead
+const MAX_REDACTED_SHARE = 0.3;
+
+const MASK = '█';
+
+// Who the app is writing for. App keeps this in line with the active reader so
+// prompts and checks don't need it passed around.
+let ageBand: AgeBand = DEFAULT_AGE_BAND;
+
+export const setAgeBand = (next: AgeBand) => { ageBand = next; };
+
+export const getAgeBand = () => ageBand;
+
+// Whether an adult chose to show the current document without redactions
+let showingFullText = false;
+
+export const setShowingFullText = (next: boolean) => { showingFullText = next; };
+
+// Who generated material was made and checked for; saved material is only
+// reused for the same audience
+export const audienceKey = () => showingFullText ? `${ageBand}:full` : ageBand;
+
+export class ContentBlockedError extends Error {
+  verdict: ModerationVerdict;
+
+  constructor(verdict: ModerationVerdict) {
+    super("Contenido no apto para esta edad");
+    this.name = 'ContentBlockedError';
+    this.verdict = verdict;
+  }
+}
+
+export const isContentBlocked = (err: unknown): err is ContentBlockedError => err instanceof ContentBlockedError;
+
+// Every place the quote appears becomes a flag; quotes the model changed
+// slightly are matched without regard to case
+export function locateFindings(text: string, findings: ModerationFinding[], offset = 0): ModerationFlag[] {
+  const flags: ModerationFlag[] = [];
+  const lower = text.toLowerCase();
+  for (const finding of findings) {
+    const quote = finding.quote?.trim();
+    if (!quote) continue;
+    const needle = quote.toLowerCase();
+    for (let at = lower.indexOf(needle); at >= 0; at = lower.indexOf(needle, at + needle.length)) {
+      flags.push({ category: finding.category, severity: finding.severity, start: offset + at, end: offset + at + quote.length, text: text.slice(at, at + quote.length) });
+    }
+  }
+  return flags;
+}
+
+const hiddenLength = (flags: ModerationFlag[]) => {
+  let hidden = 0;
+  let covered = 0;
+  for (const flag of flags.slice().sort((a, b) => a.start - b.start)) {
+    const start = Math.max(flag.start, covered);
+    if (flag.end > start) hidden += flag.end - start;
+    covered = Math.max(covered, flag.end);
+  }
+  return hidden;
+};
+
+export function judgeFlags(flags: ModerationFlag[], textLength: number, band: AgeBand = ageBand): ModerationVerdict {
+  const limits = AGE_BAND_LIMITS[band];
+  const counted = flags
+    .filter(f => SEVERITY_RANK[f.severity] >= SEVERITY_RANK[limits.redactFrom])
+    .sort((a, b) => a.start - b.start);
+  const blocked = counted.some(f => limits.blockFrom && SEVERITY_RANK[f.severity] >= SEVERITY_RANK[limits.blockFrom])
+    || (counted.length > 0 && hiddenLength(counted) > textLength * MAX_REDACTED_SHARE);
+  return { action: blocked ? 'block' : counted.length ? 'redact' : 'allow', ageBand: band, flags: counted };
+}
+
+// Masks the flagged spans character by character, so offsets into the text
+// (pages, citations) stay valid
+export function redactText(text: string, flags: ModerationFlag[], offset = 0): string {
+  let result = text;
+  for (const flag of flags) {
+    const start = Math.max(0, flag.start - offset);
+    const end = Math.min(text.length, flag.end - offset);
+    if (end <= start) continue;
+    result = result.slice(0, start) + result.slice(start, end).replace(/\S/g, MASK) + result.slice(end);
+  }
+  return result;
+}
+
+export const isRedacted = (text: string) => text.includes(MASK);
+
+const MASKED_RUN = new RegExp(`${MASK}+`, 'g');
+
+// Speech and prompts leave hidden spans out rather than passing the mask on
+export const withoutRedactions = (text: string) =>
+  isRedacted(text) ? text.replace(MASKED_RUN, '').replace(/[ \t]{2,}/g, ' ') : text;
@@ -0,0 +1,77 @@
+import { PDFDocument } from "pdf-lib";
+import { DocumentPage, Language } from "../types";
+import { extractTextFromMedia, encode } from "./geminiService";
+import { mapWithConcurrency } from "./concurrency";
+
+const MAX_PARALLEL_PAGES = 3;
+
+export interface PdfPageExtraction {
+  number: number;
+  text: string;
+  // The single-page PDF the text came from
+  source: Uint8Array;
+  // Every attempt failed, so `text` is empty rather than a blank page
+  failed: boolean;
+}
+
+export interface PdfExtractionResult {
+  text: string;
+  pages: DocumentPage[];
+}
+
+// One standalone PDF per page, so each request stays small and maps to a page number
+export async function splitPdfPages(data: ArrayBuffer): Promise<Uint8Array[]> {
+  const source = await PDFDocument.load(data, { ignoreEncryption: true });
+  const pages: Uint8Array[] = [];
+  for (let i = 0; i < source.getPageCount(); i++) {
+    const single = await PDFDocument.create();
+    const [page] = await single.copyPages(source, [i]);
+    single.addPage(page);
+    pages.push(await single.save());
+  }
+  return pages;
+}
+
+export function joinPages(extracted: { number: number; text: string }[]): PdfExtractionResult {
+  let text = '';
+  const pages: DocumentPage[] = [];
+  for (const page of extracted) {
+    if (text) text += '\n\n';
+    const start = text.length;
+    text += page.text.trim();
+    pages.push({ number: page.number, start, end: text.length });
+  }
+  return { text, pages };
+}
+
+// One retry per page; a page that still fails stays empty instead of sinking the whole book
+export async function extractPdfPageText(bytes: Uint8Array, number: number, lang: Language): Promise<{ text: string; failed: boolean }> {
+  const base64 = encode(bytes);
+  let text = '';
+  let failed = false;
+  for (let attempt = 0; attempt < 2 && !text; attempt++) {
+    try {
+      text = await extractTextFromMedia(base64, 'application/pdf', lang);
+      failed = false;
+    } catch (err) {
+      console.error(`Fallo al extraer la página ${number}:`, err);
+      failed = true;
+    }
+  }
+  return { text, failed };
+}
+
+export async function extractPdfPages(
+  data: ArrayBuffer,
+  lang: Language,
+  onProgress?: (done: number, total: number) => void
+): Promise<PdfPageExtraction[]> {
+  const pageFiles = await splitPdfPages(data);
+  let done = 0;
+  onProgress?.(done, pageFiles.length);
+
+  return mapWithConcurrency(pageFiles, MAX_PARALLEL_PAGES, async (bytes, index) => {
+    const { text, failed } = await extractPdfPageText(bytes, index + 1, lang);
+    return { number: index + 1, text, source: bytes, failed };
+  }, () => onProgress?.(++done, pageFiles.length));
+}
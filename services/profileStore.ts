@@ -0,0 +1,65 @@
+import { Language, ReaderProfile } from "../types";
+
+const PROFILES_KEY = 'claramente.profiles';
+const ACTIVE_PROFILE_KEY = 'claramente.activeProfile';
+const ADULT_PIN_KEY = 'claramente.adultPin';
+
+export function loadProfiles(): ReaderProfile[] {
+  try {
+    const raw = localStorage.getItem(PROFILES_KEY);
+    return raw ? JSON.parse(raw) : [];
+  } catch {
+    return [];
+  }
+}
+
+export function saveProfiles(profiles: ReaderProfile[]) {
+  try {
+    localStorage.setItem(PROFILES_KEY, JSON.stringify(profiles));
+  } catch (err) {
+    console.error("No se pudieron guardar los perfiles:", err);
+  }
+}
+
+export function loadActiveProfileId(): string | undefined {
+  try {
+    return localStorage.getItem(ACTIVE_PROFILE_KEY) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveActiveProfileId(id: string | undefined) {
+  try {
+    if (id) localStorage.setItem(ACTIVE_PROFILE_KEY, id);
+    else localStorage.removeItem(ACTIVE_PROFILE_KEY);
+  } catch (err) {
+    console.error("No se pudo guardar el perfil activo:", err);
+  }
+}
+
+// Keeps children out of the activity dashboard; it is not meant as security
+export function loadAdultPin(): string | undefined {
+  try {
+    return localStorage.getItem(ADULT_PIN_KEY) || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+export function saveAdultPin(pin: string) {
+  try {
+    localStorage.setItem(ADULT_PIN_KEY, pin);
+  } catch (err) {
+    console.error("No se pudo guardar el PIN:", err);
+  }
+}
+
+export function createProfile(name: string, language: Language): ReaderProfile {
+  return {
+    id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: name.trim(),
+    language,
+    playbackSpeed: 1
+  };
+}
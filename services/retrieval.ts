@@ -0,0 +1,86 @@
+import { DocumentPassage } from "../types";
+import { splitSentences } from "./textSegments";
+
+// Passages are a few sentences long and share one sentence with the next, so
+// an answer that spans a boundary is still found in one piece.
+const PASSAGE_CHARS = 500;
+const OVERLAP_SENTENCES = 1;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+interface PassageIndex {
+  passages: DocumentPassage[];
+  termCounts: Map<string, number>[];
+  lengths: number[];
+  documentFrequency: Map<string, number>;
+  averageLength: number;
+}
+
+// Accents and plural endings vary between the question and the text, so
+// terms are folded and cut to a common prefix
+const terms = (text: string) =>
+  (text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+    .filter(w => w.length > 2)
+    .map(w => w.slice(0, 6));
+
+export const chunkText = (text: string): DocumentPassage[] => {
+  const sentences = splitSentences(text);
+  const passages: DocumentPassage[] = [];
+  let first = 0;
+  while (first < sentences.length) {
+    let last = first;
+    while (last + 1 < sentences.length && sentences[last].end - sentences[first].start < PASSAGE_CHARS) last++;
+    const start = sentences[first].start;
+    const end = sentences[last].end;
+    passages.push({ text: text.slice(start, end), start, end });
+    if (last + 1 >= sentences.length) break;
+    first = Math.max(first + 1, last + 1 - OVERLAP_SENTENCES);
+  }
+  return passages;
+};
+
+const buildIndex = (text: string): PassageIndex => {
+  const passages = chunkText(text);
+  const documentFrequency = new Map<string, number>();
+  const termCounts = passages.map(p => {
+    const counts = new Map<string, number>();
+    for (const term of terms(p.text)) counts.set(term, (counts.get(term) || 0) + 1);
+    counts.forEach((_, term) => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+    return counts;
+  });
+  const lengths = termCounts.map(counts => Array.from(counts.values()).reduce((a, b) => a + b, 0));
+  const averageLength = lengths.reduce((a, b) => a + b, 0) / Math.max(1, lengths.length);
+  return { passages, termCounts, lengths, documentFrequency, averageLength };
+};
+
+// The tutor asks about the same document many times in a row
+let lastIndex: { text: string; index: PassageIndex } | null = null;
+
+const indexFor = (text: string) => {
+  if (lastIndex?.text !== text) lastIndex = { text, index: buildIndex(text) };
+  return lastIndex.index;
+};
+
+// Best `limit` passages for the query, best first. With no matching words at
+// all, the opening of the text is returned instead.
+export function findPassages(text: string, query: string, limit = 4): DocumentPassage[] {
+  const index = indexFor(text);
+  const count = index.passages.length;
+  const queryTerms = Array.from(new Set(terms(query)));
+  const scored = index.passages.map((_, i) => {
+    let score = 0;
+    for (const term of queryTerms) {
+      const tf = index.termCounts[i].get(term);
+      if (!tf) continue;
+      const df = index.documentFrequency.get(term) || 0;
+      const idf = Math.log(1 + (count - df + 0.5) / (df + 0.5));
+      score += idf * tf * (K1 + 1) / (tf + K1 * (1 - B + B * index.lengths[i] / index.averageLength));
+    }
+    return { i, score };
+  });
+  const matches = scored.filter(s => s.score > 0).sort((a, b) => b.score - a.score).slice(0, limit);
+  const picked = matches.length ? matches.map(m => m.i) : scored.slice(0, Math.min(limit, 2)).map(s => s.i);
+  return picked.map(i => index.passages[i]);
+}
@@ -0,0 +1,96 @@
+import { Language } from "../types";
+import { requestToPromise, withStore } from "./db";
+
+// Audio lives in `speech`; the small `speechIndex` store tracks size and last
+// use so eviction never has to load the audio itself.
+const AUDIO_STORE = 'speech';
+const INDEX_STORE = 'speechIndex';
+
+const MAX_CACHE_BYTES = 50 * 1024 * 1024;
+const MAX_CACHE_ENTRIES = 2000;
+
+interface SpeechEntry {
+  key: string;
+  audio: string;
+}
+
+interface SpeechIndexEntry {
+  key: string;
+  size: number;
+  lastUsedAt: number;
+}
+
+export interface SpeechCacheKeyParts {
+  provider: string;
+  model: string;
+  voice: string;
+  style: string;
+  lang: Language;
+  text: string;
+}
+
+const fnv1a = (value: string, seed: number) => {
+  let hash = seed;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 16777619);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+export async function speechCacheKey(parts: SpeechCacheKeyParts): Promise<string> {
+  const payload = JSON.stringify([parts.provider, parts.model, parts.voice, parts.style, parts.lang, parts.text.trim()]);
+  // crypto.subtle only exists in secure contexts (not on a LAN dev server)
+  if (!globalThis.crypto?.subtle) return `${fnv1a(payload, 2166136261)}${fnv1a(payload, 33554467)}-${payload.length}`;
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(payload));
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+}
+
+export async function getCachedSpeech(key: string): Promise<string | undefined> {
+  try {
+    const entry = await withStore(AUDIO_STORE, 'readonly', store => requestToPromise<SpeechEntry | undefined>(store.get(key)));
+    if (!entry) return undefined;
+    withStore(INDEX_STORE, 'readwrite', store =>
+      requestToPromise(store.put({ key, size: entry.audio.length, lastUsedAt: Date.now() }))
+    ).catch(err => console.error("No se pudo actualizar la caché de audio:", err));
+    return entry.audio;
+  } catch (err) {
+    console.error("No se pudo leer la caché de audio:", err);
+    return undefined;
+  }
+}
+
+export async function putCachedSpeech(key: string, audio: string) {
+  try {
+    await withStore(AUDIO_STORE, 'readwrite', store => requestToPromise(store.put({ key, audio })));
+    await withStore(INDEX_STORE, 'readwrite', store =>
+      requestToPromise(store.put({ key, size: audio.length, lastUsedAt: Date.now() }))
+    );
+    await evictSpeech();
+  } catch (err) {
+    console.error("No se pudo guardar en la caché de audio:", err);
+  }
+}
+
+// Least recently used entries go first once either limit is exceeded
+async function evictSpeech() {
+  const entries = await withStore(INDEX_STORE, 'readonly', store => requestToPromise<SpeechIndexEntry[]>(store.getAll()));
+  let totalBytes = entries.reduce((acc, e) => acc + e.size, 0);
+  let count = entries.length;
+  if (totalBytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) return;
+
+  const victims: string[] = [];
+  for (const entry of entries.sort((a, b) => a.lastUsedAt - b.lastUsedAt)) {
+    if (totalBytes <= MAX_CACHE_BYTES && count <= MAX_CACHE_ENTRIES) break;
+    victims.push(entry.key);
+    totalBytes -= entry.size;
+    count--;
+  }
+  await withStore(AUDIO_STORE, 'readwrite', store => Promise.all(victims.map(key => requestToPromise(store.delete(key)))));
+  await withStore(INDEX_STORE, 'readwrite', store => Promise.all(victims.map(key => requestToPromise(store.delete(key)))));
+}
+
+export async function clearSpeechCache() {
+  await withStore(AUDIO_STORE, 'readwrite', store => requestToPromise(store.clear()));
+  await withStore(INDEX_STORE, 'readwrite', store => requestToPromise(store.clear()));
+}
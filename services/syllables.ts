@@ -0,0 +1,31 @@
+import { hyphenateSync as hyphenateEs } from "hyphen/es";
+import { hyphenateSync as hyphenateEn } from "hyphen/en";
+import { hyphenateSync as hyphenatePt } from "hyphen/pt";
+import { hyphenateSync as hyphenateDe } from "hyphen/de";
+import { Language } from "../types";
+
+const HYPHENATORS: Record<Language, typeof hyphenateEs> = {
+  es: hyphenateEs,
+  en: hyphenateEn,
+  pt: hyphenatePt,
+  de: hyphenateDe
+};
+
+const SOFT_HYPHEN = '\u00AD';
+
+// Hyphenation patterns skip short words by default; children need "ca-sa" too
+const MIN_WORD_LENGTH = 3;
+
+const cache = new Map<string, string[]>();
+
+// Splits one word (punctuation included) into its syllables using the
+// hyphenation patterns of the language. Joining the result gives the word back.
+export const splitSyllables = (word: string, lang: Language): string[] => {
+  const key = `${lang}:${word}`;
+  let syllables = cache.get(key);
+  if (!syllables) {
+    syllables = HYPHENATORS[lang](word, { hyphenChar: SOFT_HYPHEN, minWordLength: MIN_WORD_LENGTH }).split(SOFT_HYPHEN);
+    cache.set(key, syllables);
+  }
+  return syllables;
+};
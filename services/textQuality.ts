@@ -0,0 +1,89 @@
+import { Language } from "../types";
+
+export type SuspicionReason = 'mixed' | 'symbols' | 'repeated' | 'noVowels' | 'tooLong' | 'unreadable';
+
+export interface SuspiciousSegment {
+  start: number;
+  end: number;
+  text: string;
+  reason: SuspicionReason;
+}
+
+const VOWELS: Record<Language, string> = {
+  es: 'aeiouáéíóúü',
+  en: 'aeiouy',
+  pt: 'aeiouáéíóúâêôãõàü',
+  de: 'aeiouäöüy'
+};
+
+// OCR mistakes rarely look like real words: digits inside words, symbol soup,
+// stretched letters or consonant runs. None of these prove an error, they only
+// point an adult at places worth a second look.
+const classifyToken = (token: string, lang: Language): SuspicionReason | null => {
+  if (token.includes('�')) return 'unreadable';
+  const core = token.replace(/^[¿¡("'«“‘\[]+|[.,;:!?)"'»”’\]]+$/g, '');
+  if (!core) return null;
+  if (/[^\p{L}\p{N}\-'’]{2,}/u.test(core) && /[\p{L}\p{N}]/u.test(core)) return 'symbols';
+  if (/^[^\p{L}\p{N}]{3,}$/u.test(core)) return 'symbols';
+  if (/\p{L}/u.test(core) && /\p{N}/u.test(core) && !/^\d+(º|ª|st|nd|rd|th|er|e|o|a)$/i.test(core)) return 'mixed';
+  if (/(\p{L})\1{2,}/u.test(core)) return 'repeated';
+  if (core.length > 25) return 'tooLong';
+  const letters = core.toLowerCase().replace(/[^\p{L}]/gu, '');
+  if (letters.length >= 4 && letters === core && ![...letters].some(c => VOWELS[lang].includes(c))) return 'noVowels';
+  return null;
+};
+
+export function findSuspiciousSegments(text: string, lang: Language): SuspiciousSegment[] {
+  const segments: SuspiciousSegment[] = [];
+  for (const match of text.matchAll(/\S+/g)) {
+    const reason = classifyToken(match[0], lang);
+    if (reason) segments.push({ start: match.index!, end: match.index! + match[0].length, text: match[0], reason });
+  }
+  return segments;
+}
+
+const PAGE_NUMBER_LINE = /^\s*[-–—]?\s*((p(á|a)g(ina)?|page|seite|s\.)\.?\s*)?\d{1,4}\s*[-–—]?\s*$/i;
+
+const normalizeLine = (line: string) => line.trim().toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ');
+
+const edgeLines = (pageText: string) => {
+  const lines = pageText.split('\n').map(l => l.trim()).filter(Boolean);
+  return Array.from(new Set([...lines.slice(0, 2), ...lines.slice(-2)]));
+};
+
+// Lines at the top or bottom of a page that repeat across pages (running
+// heads, chapter titles, "Page 3") plus bare page numbers.
+export function findRepeatedEdgeLines(pageTexts: string[]): Set<string> {
+  const counts = new Map<string, number>();
+  for (const pageText of pageTexts) {
+    for (const key of new Set(edgeLines(pageText).map(normalizeLine))) {
+      counts.set(key, (counts.get(key) || 0) + 1);
+    }
+  }
+  const threshold = Math.max(2, Math.floor(pageTexts.length / 2));
+  const repeated = new Set<string>();
+  for (const [key, count] of counts) {
+    if (count >= threshold) repeated.add(key);
+  }
+  for (const pageText of pageTexts) {
+    for (const line of edgeLines(pageText)) {
+      if (PAGE_NUMBER_LINE.test(line)) repeated.add(normalizeLine(line));
+    }
+  }
+  return repeated;
+}
+
+export function removeEdgeLines(pageText: string, repeated: Set<string>): string {
+  const lines = pageText.split('\n');
+  const isEdge = (line: string) => repeated.has(normalizeLine(line));
+  let first = 0;
+  let last = lines.length - 1;
+  // Only strip from the edges so a matching sentence in the middle survives
+  for (let i = 0; i < 2; i++) {
+    while (first <= last && !lines[first].trim()) first++;
+    if (first <= last && isEdge(lines[first])) first++;
+    while (last >= first && !lines[last].trim()) last--;
+    if (last >= first && isEdge(lines[last])) last--;
+  }
+  return lines.slice(first, last + 1).join('\n').trim();
+}
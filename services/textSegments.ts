@@ -0,0 +1,91 @@
+export interface TextSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Sentences keep their offsets into the source text so the UI can render the
+// original whitespace around them.
+export const splitSentences = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  for (const match of text.matchAll(/[^.!?\n]+[.!?\n]*/g)) {
+    const trimmed = match[0].trim();
+    if (trimmed.length <= 2) continue;
+    const start = match.index! + match[0].length - match[0].trimStart().length;
+    segments.push({ text: trimmed, start, end: start + trimmed.length });
+  }
+  if (segments.length === 0 && text.trim()) {
+    const start = text.length - text.trimStart().length;
+    segments.push({ text: text.trim(), start, end: start + text.trim().length });
+  }
+  return segments;
+};
+
+export const splitWords = (text: string): TextSegment[] =>
+  Array.from(text.matchAll(/\S+/g), m => ({ text: m[0], start: m.index!, end: m.index! + m[0].length }));
+
+// Strips the punctuation glued to a word ("¡Hola," -> "Hola")
+export const cleanWord = (word: string) => word.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '');
+
+// Index of the word being spoken after `progress` (0..1) of the sentence audio,
+// weighting each word by its length.
+export const wordAtProgress = (words: TextSegment[], progress: number) => {
+  const total = words.reduce((acc, w) => acc + w.text.length + 1, 0);
+  let elapsed = 0;
+  for (let i = 0; i < words.length; i++) {
+    elapsed += words[i].text.length + 1;
+    if (elapsed / total > progress) return i;
+  }
+  return words.length - 1;
+};
+
+export interface TextChapter {
+  // Empty when the text has no headings and was cut by length
+  title: string;
+  text: string;
+}
+
+const MAX_CHAPTER_CHARS = 8000;
+
+// "# Title", or "Chapter 3", "Capítulo IV: El río", "Kapitel eins"
+const HEADING_PATTERN = /^(?:#{1,3}\s+.+|(?:cap[ií]tulo|chapter|kapitel|parte|part|teil|secci[oó]n|se[cç][aã]o|section|abschnitt)\s+[\p{L}\p{N}]+\s*(?:[:.\-–—].*)?)$/iu;
+
+// Splits at chapter headings when the text has them; otherwise long texts are
+// cut at paragraph breaks into sections of similar length. Order is kept.
+export const splitChapters = (text: string): TextChapter[] => {
+  const lines = text.split('\n');
+  const headings = lines
+    .map((line, index) => ({ line: line.trim(), index }))
+    .filter(({ line }) => line.length <= 80 && HEADING_PATTERN.test(line));
+
+  if (headings.length >= 2) {
+    const chapters: TextChapter[] = [];
+    const intro = lines.slice(0, headings[0].index).join('\n').trim();
+    if (intro.length > 200) chapters.push({ title: '', text: intro });
+    headings.forEach((heading, i) => {
+      const body = lines.slice(heading.index + 1, headings[i + 1]?.index ?? lines.length).join('\n').trim();
+      if (body) chapters.push({ title: heading.line.replace(/^#+\s*/, ''), text: body });
+    });
+    if (chapters.length) return chapters;
+  }
+
+  if (text.length <= MAX_CHAPTER_CHARS) return [{ title: '', text }];
+
+  // Paragraphs when there are blank lines, sentences otherwise
+  const blocks = /\n\s*\n/.test(text) ? text.split(/\n\s*\n/) : splitSentences(text).map(s => s.text);
+  const target = text.length / Math.ceil(text.length / MAX_CHAPTER_CHARS);
+  const chapters: TextChapter[] = [];
+  let current: string[] = [];
+  let size = 0;
+  for (const block of blocks) {
+    if (size >= target && current.length) {
+      chapters.push({ title: '', text: current.join('\n\n') });
+      current = [];
+      size = 0;
+    }
+    current.push(block.trim());
+    size += block.length;
+  }
+  if (current.length) chapters.push({ title: '', text: current.join('\n\n') });
+  return chapters;
+};
@@ -3,7 +3,7 @@ import { Language } from './types';
 export const TRANSLATIONS: Record<Language, any> = {
   es: {
     welcome: "¡Hola! Vamos a leer",
-    uploadSubtitle: "Sube un PDF o una foto de tu libro favorito.",
+    uploadSubtitle: "Sube un PDF, una foto, un Word o un EPUB de tu libro favorito.",
     legalNotice: "He leído y acepto el Aviso Legal y la Política de Privacidad",
     legalSubtitle: "Entiendo que Claramente es una herramienta de apoyo pedagógico.",
     uploadBtn: "¡Toca para elegir!",
@@ -27,6 +27,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     drawingComic: "Dibujando tu magia...",
     paintingScenes: "Pintando escenas de tu historia",
     fontStepTitle: "¿Qué letra prefieres?",
+    fontNames: { standard: "Normal", dyslexic: "Para dislexia", rounded: "Redondeada" },
     spacingStepTitle: "Personaliza tu espacio",
     lines: "Líneas",
     letters: "Letras",
@@ -35,12 +36,141 @@ export const TRANSLATIONS: Record<Language, any> = {
     narratorMode: "Modo Narrador",
     listening: "Escuchando...",
     noText: "No hay texto para mostrar",
+    readers: "Lectores",
+    guest: "Invitado",
+    readerName: "Nombre del lector",
+    newReader: "Nuevo lector",
+    deleteReader: "Borrar lector",
+    library: "Mi biblioteca",
+    libraryEmpty: "Todavía no hay documentos guardados.",
+    open: "Abrir",
+    rename: "Renombrar",
+    save: "Guardar",
+    delete: "Borrar",
+    confirmDelete: "¿Borrar?",
+    pasteTitle: "O pega tu texto",
+    pastePlaceholder: "Pega aquí el texto que quieres leer...",
+    usePastedText: "Usar este texto",
+    pastedTextName: "Texto pegado",
+    errorReadFile: "No pudimos leer este archivo. Prueba con otro.",
+    pageProgress: "Página {done} de {total}",
+    page: "Página",
+    reviewTitle: "Revisa el texto",
+    reviewSubtitle: "Compara la transcripción con el original y corrige lo que haga falta antes de leer.",
+    removeHeaders: "Quitar encabezados y pies",
+    mergeWithNext: "Unir con la siguiente página",
+    pagesOf: "Páginas {from}–{to} de {total}",
+    previousPages: "Páginas anteriores",
+    nextPages: "Páginas siguientes",
+    continueReview: "Continuar",
+    suspiciousWords: "Palabras para revisar",
+    noIssues: "No encontramos palabras raras",
+    pageFailed: "No pudimos leer esta página. Vuelve a intentarlo o escribe el texto.",
+    readPageAgain: "Leer de nuevo",
+    voiceStepTitle: "¿Qué voz te gusta más?",
+    voicePreview: "¡Hola! Soy tu narrador. ¿Leemos juntos?",
+    narratorStyle: "Estilo",
+    narratorStyles: { neutral: "Normal", calm: "Tranquila", storyteller: "Cuentacuentos", cheerful: "Alegre" },
+    simplifyTitle: "Texto Fácil",
+    simplifySubtitle: "Frase a frase, con palabras más sencillas",
+    simplifying: "Haciendo el texto más fácil...",
+    originalText: "Original",
+    simplifiedText: "Más fácil",
+    useSimplifiedIn: "Usar en",
+    readingLevels: { easy: "Muy fácil", grade2: "2º grado", grade4: "4º grado" },
+    modeNames: { READER: "Lectura", COMIC: "Cómic", EXPLAIN: "Tutor", VIDEO: "Video", SIMPLIFY: "Texto fácil", QUIZ: "Preguntas" },
+    simplifiedActive: "Versión fácil: {level}",
+    backToOriginal: "Volver al original",
+    glossary: "Mis palabras",
+    glossaryEmpty: "Toca cualquier palabra del texto para saber qué significa.",
+    definingWord: "Buscando la palabra...",
+    noDefinition: "No encontramos esta palabra.",
+    example: "Ejemplo",
+    sayIt: "Escuchar",
+    showPicture: "Ver un dibujo",
+    syllablesTitle: "Sílabas",
+    syllableModes: { off: "Palabras enteras", colors: ["sí", "la", "bas"], dots: "sí·la·bas" },
+    readingRuler: "Regla de lectura",
+    rulerModes: { off: "Sin regla", band: "Franja", mask: "Ventana" },
+    rulerLines: "Líneas visibles",
+    rulerColor: "Color",
+    rulerOpacity: "Intensidad",
+    quizTitle: "Juego de Preguntas",
+    makingQuiz: "Preparando tus preguntas...",
+    noQuiz: "No pudimos crear preguntas para este texto.",
+    questionOf: "Pregunta {done} de {total}",
+    trueLabel: "Verdadero",
+    falseLabel: "Falso",
+    sequenceHint: "Toca lo que pasa en orden",
+    sequenceReset: "Empezar de nuevo",
+    checkAnswer: "Comprobar",
+    rightAnswer: "¡Muy bien!",
+    wrongAnswer: "¡Casi! Mira la respuesta",
+    theTextSays: "El texto dice",
+    seeResults: "Ver resultados",
+    quizResults: "Tus resultados",
+    quizScore: "{score} de {total} correctas",
+    tryAgain: "Jugar otra vez",
+    adultsOnly: "Solo para adultos",
+    createPin: "Crea un PIN de 4 números para proteger el panel.",
+    pinNotSet: "Primero un adulto tiene que crear un PIN en «Progreso y actividad».",
+    enterPin: "Escribe el PIN de 4 números.",
+    wrongPin: "Ese PIN no es correcto.",
+    dashboardTitle: "Progreso y actividad",
+    allReaders: "Todos los lectores",
+    lastDays: "{days} días",
+    readingMinutes: "Minutos de lectura",
+    readingMinutesPerDay: "Minutos de lectura por día",
+    documentsCompleted: "Textos terminados",
+    quizAverage: "Media en preguntas",
+    wordsLookedUp: "Palabras buscadas",
+    quizHistory: "Juegos de preguntas",
+    questionsAsked: "Preguntas al tutor",
+    noActivity: "Todavía no hay nada aquí.",
+    exportComic: "Exportar",
+    comicLayouts: { grid: "Cuadrícula 2x2", strip: "Tira vertical" },
+    comicNotReady: "Espera a que se dibujen todas las viñetas",
+    comicPanels: "Viñetas",
+    comicSameLook: "Mismos personajes en todas",
+    comicStyle: "Estilo",
+    comicStyles: { cartoon: "Dibujos animados", watercolor: "Acuarela", crayon: "Ceras", comicbook: "Cómic clásico", papercut: "Papel recortado" },
+    comicCharacters: "Personajes",
+    comicRedraw: "Dibujar otra vez",
+    playComic: "Escuchar el cómic entero",
+    stopComic: "Parar",
+    comicPart: "Parte {n}",
+    chapterOf: "Capítulo {current} de {total}",
+    previousChapter: "Capítulo anterior",
+    nextChapter: "Capítulo siguiente",
+    seeInText: "Ver en el texto",
+    tutorEvidence: "Lo que el tutor ha usado para responder está marcado en el texto.",
+    backToTutor: "Volver al tutor",
+    hideEvidence: "Quitar marca",
+    stopAnswer: "Parar respuesta",
+    tutorSpeaking: "El tutor está hablando...",
+    talkToTutor: "Hablar con el tutor",
+    checkingContent: "Revisando que el texto sea adecuado...",
+    checkFailedTitle: "No pudimos revisar el texto",
+    checkFailedText: "Antes de leer hay que comprobar que el texto sea adecuado. Revisa la conexión e inténtalo de nuevo.",
+    checkAgain: "Revisar de nuevo",
+    contentBlockedTitle: "¡Ups! Esto no es para tu edad",
+    contentBlockedText: "Mi magia solo funciona con contenido apto para ti. Pide a un adulto que te ayude a elegir otro texto.",
+    answerBlocked: "Prefiero no hablar de eso. ¿Quieres preguntarme otra cosa del texto?",
+    contentRedacted: "Hemos tapado algunas partes que no son para tu edad.",
+    reviewForAdults: "Revisar (adultos)",
+    flaggedPassages: "Partes señaladas",
+    showFullText: "Mostrar el texto completo",
+    readerAges: "Edad de cada lector",
+    ageBand: "Edad",
+    moderationCategories: { violence: "Violencia", sexual: "Sexual", language: "Lenguaje", fear: "Miedo", self_harm: "Autolesiones", drugs: "Drogas", hate: "Odio" },
+    moderationSeverities: { low: "Leve", medium: "Media", high: "Alta" },
+    ageBands: { "4-6": "4-6 años", "6-10": "6-10 años", "10-14": "10-14 años", teen: "Adolescente" },
     errorAPI: "Hay un problema con la clave de acceso.",
     errorOverload: "El sistema está un poco cansado. Intenta de nuevo en unos segundos."
   },
   en: {
     welcome: "Hello! Let's read",
-    uploadSubtitle: "Upload a PDF or a photo of your favorite book.",
+    uploadSubtitle: "Upload a PDF, a photo, a Word file or an EPUB of your favorite book.",
     legalNotice: "I have read and accept the Legal Notice and Privacy Policy",
     legalSubtitle: "I understand that Claramente is a pedagogical support tool.",
     uploadBtn: "Tap to choose!",
@@ -64,6 +194,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     drawingComic: "Drawing your magic...",
     paintingScenes: "Painting scenes from your story",
     fontStepTitle: "Which font do you prefer?",
+    fontNames: { standard: "Standard", dyslexic: "Dyslexia-friendly", rounded: "Rounded" },
     spacingStepTitle: "Personalize your space",
     lines: "Lines",
     letters: "Letters",
@@ -72,13 +203,142 @@ export const TRANSLATIONS: Record<Language, any> = {
     narratorMode: "Narrator Mode",
     listening: "Listening...",
     noText: "No text to show",
+    readers: "Readers",
+    guest: "Guest",
+    readerName: "Reader name",
+    newReader: "New reader",
+    deleteReader: "Delete reader",
+    library: "My library",
+    libraryEmpty: "There are no saved documents yet.",
+    open: "Open",
+    rename: "Rename",
+    save: "Save",
+    delete: "Delete",
+    confirmDelete: "Delete?",
+    pasteTitle: "Or paste your text",
+    pastePlaceholder: "Paste the text you want to read here...",
+    usePastedText: "Use this text",
+    pastedTextName: "Pasted text",
+    errorReadFile: "We couldn't read this file. Try another one.",
+    pageProgress: "Page {done} of {total}",
+    page: "Page",
+    reviewTitle: "Review the text",
+    reviewSubtitle: "Compare the transcription with the original and fix anything needed before reading.",
+    removeHeaders: "Remove headers and footers",
+    mergeWithNext: "Merge with next page",
+    pagesOf: "Pages {from}–{to} of {total}",
+    previousPages: "Previous pages",
+    nextPages: "Next pages",
+    continueReview: "Continue",
+    suspiciousWords: "Words to check",
+    noIssues: "No odd words found",
+    pageFailed: "We couldn't read this page. Try again or type the text.",
+    readPageAgain: "Read again",
+    voiceStepTitle: "Which voice do you like best?",
+    voicePreview: "Hello! I'm your narrator. Shall we read together?",
+    narratorStyle: "Style",
+    narratorStyles: { neutral: "Normal", calm: "Calm", storyteller: "Storyteller", cheerful: "Cheerful" },
+    simplifyTitle: "Easy Text",
+    simplifySubtitle: "Sentence by sentence, in simpler words",
+    simplifying: "Making the text easier...",
+    originalText: "Original",
+    simplifiedText: "Easier",
+    useSimplifiedIn: "Use in",
+    readingLevels: { easy: "Very easy", grade2: "Grade 2", grade4: "Grade 4" },
+    modeNames: { READER: "Reader", COMIC: "Comic", EXPLAIN: "Tutor", VIDEO: "Video", SIMPLIFY: "Easy text", QUIZ: "Quiz" },
+    simplifiedActive: "Easy version: {level}",
+    backToOriginal: "Back to the original",
+    glossary: "My words",
+    glossaryEmpty: "Tap any word in the text to find out what it means.",
+    definingWord: "Looking up the word...",
+    noDefinition: "We couldn't find this word.",
+    example: "Example",
+    sayIt: "Listen",
+    showPicture: "Show a picture",
+    syllablesTitle: "Syllables",
+    syllableModes: { off: "Whole words", colors: ["syl", "la", "bles"], dots: "syl·la·bles" },
+    readingRuler: "Reading ruler",
+    rulerModes: { off: "No ruler", band: "Band", mask: "Window" },
+    rulerLines: "Visible lines",
+    rulerColor: "Colour",
+    rulerOpacity: "Strength",
+    quizTitle: "Quiz Game",
+    makingQuiz: "Getting your questions ready...",
+    noQuiz: "We couldn't make questions for this text.",
+    questionOf: "Question {done} of {total}",
+    trueLabel: "True",
+    falseLabel: "False",
+    sequenceHint: "Tap what happens in order",
+    sequenceReset: "Start over",
+    checkAnswer: "Check",
+    rightAnswer: "Well done!",
+    wrongAnswer: "Almost! Look at the answer",
+    theTextSays: "The text says",
+    seeResults: "See results",
+    quizResults: "Your results",
+    quizScore: "{score} of {total} right",
+    tryAgain: "Play again",
+    adultsOnly: "Adults only",
+    createPin: "Create a 4-digit PIN to protect the dashboard.",
+    pinNotSet: "An adult first needs to create a PIN in “Progress and activity”.",
+    enterPin: "Enter the 4-digit PIN.",
+    wrongPin: "That PIN is not right.",
+    dashboardTitle: "Progress and activity",
+    allReaders: "All readers",
+    lastDays: "{days} days",
+    readingMinutes: "Reading minutes",
+    readingMinutesPerDay: "Reading minutes per day",
+    documentsCompleted: "Texts finished",
+    quizAverage: "Quiz average",
+    wordsLookedUp: "Words looked up",
+    quizHistory: "Quizzes",
+    questionsAsked: "Questions to the tutor",
+    noActivity: "Nothing here yet.",
+    exportComic: "Export",
+    comicLayouts: { grid: "2x2 grid", strip: "Vertical strip" },
+    comicNotReady: "Wait until every panel is drawn",
+    comicPanels: "Panels",
+    comicSameLook: "Same characters everywhere",
+    comicStyle: "Style",
+    comicStyles: { cartoon: "Cartoon", watercolor: "Watercolor", crayon: "Crayons", comicbook: "Classic comic", papercut: "Paper cut-out" },
+    comicCharacters: "Characters",
+    comicRedraw: "Draw again",
+    playComic: "Play the whole comic",
+    stopComic: "Stop",
+    comicPart: "Part {n}",
+    chapterOf: "Chapter {current} of {total}",
+    previousChapter: "Previous chapter",
+    nextChapter: "Next chapter",
+    seeInText: "See in the text",
+    tutorEvidence: "The part the tutor used to answer is marked in the text.",
+    backToTutor: "Back to tutor",
+    hideEvidence: "Remove highlight",
+    stopAnswer: "Stop answer",
+    tutorSpeaking: "The tutor is talking...",
+    talkToTutor: "Talk to the tutor",
+    checkingContent: "Checking that the text is suitable...",
+    checkFailedTitle: "We couldn't check the text",
+    checkFailedText: "The text has to be checked before reading. Check the connection and try again.",
+    checkAgain: "Check again",
+    contentBlockedTitle: "Oops! This isn't for your age",
+    contentBlockedText: "My magic only works with content that is right for you. Ask an adult to help you pick another text.",
+    answerBlocked: "I'd rather not talk about that. Do you want to ask me something else about the text?",
+    contentRedacted: "We covered some parts that aren't for your age.",
+    reviewForAdults: "Review (adults)",
+    flaggedPassages: "Flagged parts",
+    showFullText: "Show the full text",
+    readerAges: "Each reader's age",
+    ageBand: "Age",
+    moderationCategories: { violence: "Violence", sexual: "Sexual", language: "Language", fear: "Fear", self_harm: "Self-harm", drugs: "Drugs", hate: "Hate" },
+    moderationSeverities: { low: "Mild", medium: "Medium", high: "High" },
+    ageBands: { "4-6": "4-6 years", "6-10": "6-10 years", "10-14": "10-14 years", teen: "Teen" },
     errorAPI: "There's a problem with the access key.",
     errorOverload: "There's a problem with the server.",
     errorUnknown: "Something went wrong."
   },
   pt: {
     welcome: "Olá! Vamos ler",
-    uploadSubtitle: "Suba um PDF ou uma foto do seu libro favorito.",
+    uploadSubtitle: "Suba um PDF, uma foto, um Word ou um EPUB do seu libro favorito.",
     legalNotice: "Li e aceito o Aviso Legal e a Política de Privacidade",
     legalSubtitle: "Entendo que Claramente é uma ferramenta de apoio pedagógico.",
     uploadBtn: "Toque para escolher!",
@@ -102,6 +362,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     drawingComic: "Desenhando sua magia...",
     paintingScenes: "Pintando cenas da sua história",
     fontStepTitle: "Qual letra você prefere?",
+    fontNames: { standard: "Normal", dyslexic: "Para dislexia", rounded: "Arredondada" },
     spacingStepTitle: "Personalize seu espaço",
     lines: "Linhas",
     letters: "Letras",
@@ -110,12 +371,141 @@ export const TRANSLATIONS: Record<Language, any> = {
     narratorMode: "Modo Narrador",
     listening: "Ouvindo...",
     noText: "Nenhum texto para mostrar",
+    readers: "Leitores",
+    guest: "Convidado",
+    readerName: "Nome do leitor",
+    newReader: "Novo leitor",
+    deleteReader: "Apagar leitor",
+    library: "Minha biblioteca",
+    libraryEmpty: "Ainda não há documentos salvos.",
+    open: "Abrir",
+    rename: "Renomear",
+    save: "Salvar",
+    delete: "Apagar",
+    confirmDelete: "Apagar?",
+    pasteTitle: "Ou cole seu texto",
+    pastePlaceholder: "Cole aqui o texto que você quer ler...",
+    usePastedText: "Usar este texto",
+    pastedTextName: "Texto colado",
+    errorReadFile: "Não conseguimos ler este arquivo. Tente outro.",
+    pageProgress: "Página {done} de {total}",
+    page: "Página",
+    reviewTitle: "Revise o texto",
+    reviewSubtitle: "Compare a transcrição com o original e corrija o que for preciso antes de ler.",
+    removeHeaders: "Remover cabeçalhos e rodapés",
+    mergeWithNext: "Juntar com a próxima página",
+    pagesOf: "Páginas {from}–{to} de {total}",
+    previousPages: "Páginas anteriores",
+    nextPages: "Próximas páginas",
+    continueReview: "Continuar",
+    suspiciousWords: "Palavras para revisar",
+    noIssues: "Não encontramos palavras estranhas",
+    pageFailed: "Não conseguimos ler esta página. Tente de novo ou escreva o texto.",
+    readPageAgain: "Ler de novo",
+    voiceStepTitle: "Qual voz você prefere?",
+    voicePreview: "Olá! Eu sou o seu narrador. Vamos ler juntos?",
+    narratorStyle: "Estilo",
+    narratorStyles: { neutral: "Normal", calm: "Tranquila", storyteller: "Contador de histórias", cheerful: "Alegre" },
+    simplifyTitle: "Texto Fácil",
+    simplifySubtitle: "Frase a frase, com palavras mais simples",
+    simplifying: "Deixando o texto mais fácil...",
+    originalText: "Original",
+    simplifiedText: "Mais fácil",
+    useSimplifiedIn: "Usar em",
+    readingLevels: { easy: "Muito fácil", grade2: "2º ano", grade4: "4º ano" },
+    modeNames: { READER: "Leitura", COMIC: "Quadrinho", EXPLAIN: "Tutor", VIDEO: "Vídeo", SIMPLIFY: "Texto fácil", QUIZ: "Perguntas" },
+    simplifiedActive: "Versão fácil: {level}",
+    backToOriginal: "Voltar ao original",
+    glossary: "Minhas palavras",
+    glossaryEmpty: "Toque em qualquer palavra do texto para saber o que significa.",
+    definingWord: "Procurando a palavra...",
+    noDefinition: "Não encontramos esta palavra.",
+    example: "Exemplo",
+    sayIt: "Ouvir",
+    showPicture: "Ver um desenho",
+    syllablesTitle: "Sílabas",
+    syllableModes: { off: "Palavras inteiras", colors: ["sí", "la", "bas"], dots: "sí·la·bas" },
+    readingRuler: "Régua de leitura",
+    rulerModes: { off: "Sem régua", band: "Faixa", mask: "Janela" },
+    rulerLines: "Linhas visíveis",
+    rulerColor: "Cor",
+    rulerOpacity: "Intensidade",
+    quizTitle: "Jogo de Perguntas",
+    makingQuiz: "Preparando suas perguntas...",
+    noQuiz: "Não conseguimos criar perguntas para este texto.",
+    questionOf: "Pergunta {done} de {total}",
+    trueLabel: "Verdadeiro",
+    falseLabel: "Falso",
+    sequenceHint: "Toque no que acontece em ordem",
+    sequenceReset: "Começar de novo",
+    checkAnswer: "Verificar",
+    rightAnswer: "Muito bem!",
+    wrongAnswer: "Quase! Veja a resposta",
+    theTextSays: "O texto diz",
+    seeResults: "Ver resultados",
+    quizResults: "Seus resultados",
+    quizScore: "{score} de {total} certas",
+    tryAgain: "Jogar de novo",
+    adultsOnly: "Só para adultos",
+    createPin: "Crie um PIN de 4 números para proteger o painel.",
+    pinNotSet: "Primeiro um adulto precisa criar um PIN em «Progresso e atividade».",
+    enterPin: "Digite o PIN de 4 números.",
+    wrongPin: "Esse PIN não está correto.",
+    dashboardTitle: "Progresso e atividade",
+    allReaders: "Todos os leitores",
+    lastDays: "{days} dias",
+    readingMinutes: "Minutos de leitura",
+    readingMinutesPerDay: "Minutos de leitura por dia",
+    documentsCompleted: "Textos terminados",
+    quizAverage: "Média nas perguntas",
+    wordsLookedUp: "Palavras procuradas",
+    quizHistory: "Jogos de perguntas",
+    questionsAsked: "Perguntas ao tutor",
+    noActivity: "Ainda não há nada aqui.",
+    exportComic: "Exportar",
+    comicLayouts: { grid: "Grade 2x2", strip: "Tira vertical" },
+    comicNotReady: "Espere até todos os quadros serem desenhados",
+    comicPanels: "Quadros",
+    comicSameLook: "Mesmos personagens em todos",
+    comicStyle: "Estilo",
+    comicStyles: { cartoon: "Desenho animado", watercolor: "Aquarela", crayon: "Giz de cera", comicbook: "Quadrinho clássico", papercut: "Papel recortado" },
+    comicCharacters: "Personagens",
+    comicRedraw: "Desenhar de novo",
+    playComic: "Ouvir o quadrinho inteiro",
+    stopComic: "Parar",
+    comicPart: "Parte {n}",
+    chapterOf: "Capítulo {current} de {total}",
+    previousChapter: "Capítulo anterior",
+    nextChapter: "Próximo capítulo",
+    seeInText: "Ver no texto",
+    tutorEvidence: "A parte que o tutor usou para responder está marcada no texto.",
+    backToTutor: "Voltar ao tutor",
+    hideEvidence: "Remover marcação",
+    stopAnswer: "Parar resposta",
+    tutorSpeaking: "O tutor está falando...",
+    talkToTutor: "Falar com o tutor",
+    checkingContent: "Verificando se o texto é adequado...",
+    checkFailedTitle: "Não conseguimos verificar o texto",
+    checkFailedText: "Antes de ler é preciso verificar se o texto é adequado. Confira a conexão e tente de novo.",
+    checkAgain: "Verificar de novo",
+    contentBlockedTitle: "Ops! Isto não é para a sua idade",
+    contentBlockedText: "Minha magia só funciona com conteúdo adequado para você. Peça a um adulto para ajudar a escolher outro texto.",
+    answerBlocked: "Prefiro não falar sobre isso. Quer me perguntar outra coisa sobre o texto?",
+    contentRedacted: "Cobrimos algumas partes que não são para a sua idade.",
+    reviewForAdults: "Revisar (adultos)",
+    flaggedPassages: "Partes marcadas",
+    showFullText: "Mostrar o texto completo",
+    readerAges: "Idade de cada leitor",
+    ageBand: "Idade",
+    moderationCategories: { violence: "Violência", sexual: "Sexual", language: "Linguagem", fear: "Medo", self_harm: "Automutilação", drugs: "Drogas", hate: "Ódio" },
+    moderationSeverities: { low: "Leve", medium: "Média", high: "Alta" },
+    ageBands: { "4-6": "4-6 anos", "6-10": "6-10 anos", "10-14": "10-14 anos", teen: "Adolescente" },
     errorAPI: "Há um problema con a chave de acceso.",
     errorOverload: "O sistema está um pouco cansado. Tente novamente em alguns segundos."
   },
   de: {
     welcome: "Hallo! Lass uns lesen",
-    uploadSubtitle: "Lade ein PDF oder ein Foto deines Lieblingsbuchs hoch.",
+    uploadSubtitle: "Lade ein PDF, ein Foto, eine Word-Datei oder ein EPUB deines Lieblingsbuchs hoch.",
     legalNotice: "Ich habe die rechtlichen Hinweise und die Datenschutzbestimmungen gelesen und akzeptiere sie",
     legalSubtitle: "Ich verstehe, dass Claramente ein pädagogisches Unterstützungstool ist.",
     uploadBtn: "Tippe zum Auswählen!",
@@ -139,6 +529,7 @@ export const TRANSLATIONS: Record<Language, any> = {
     drawingComic: "Deine Magie wird gezeichnet...",
     paintingScenes: "Szenen aus deiner Geschichte werden gemalt",
     fontStepTitle: "Welche Schriftart bevorzugst du?",
+    fontNames: { standard: "Normal", dyslexic: "Für Legasthenie", rounded: "Abgerundet" },
     spacingStepTitle: "Personalisiere deinen Bereich",
     lines: "Linien",
     letters: "Buchstaben",
@@ -147,6 +538,135 @@ export const TRANSLATIONS: Record<Language, any> = {
     narratorMode: "Erzählermodus",
     listening: "Zuhören...",
     noText: "Kein Text zum Anzeigen",
+    readers: "Leser",
+    guest: "Gast",
+    readerName: "Name des Lesers",
+    newReader: "Neuer Leser",
+    deleteReader: "Leser löschen",
+    library: "Meine Bibliothek",
+    libraryEmpty: "Noch keine gespeicherten Dokumente.",
+    open: "Öffnen",
+    rename: "Umbenennen",
+    save: "Speichern",
+    delete: "Löschen",
+    confirmDelete: "Löschen?",
+    pasteTitle: "Oder füge deinen Text ein",
+    pastePlaceholder: "Füge hier den Text ein, den du lesen möchtest...",
+    usePastedText: "Diesen Text verwenden",
+    pastedTextName: "Eingefügter Text",
+    errorReadFile: "Wir konnten diese Datei nicht lesen. Versuche eine andere.",
+    pageProgress: "Seite {done} von {total}",
+    page: "Seite",
+    reviewTitle: "Text überprüfen",
+    reviewSubtitle: "Vergleiche die Abschrift mit dem Original und korrigiere, was nötig ist, bevor ihr lest.",
+    removeHeaders: "Kopf- und Fußzeilen entfernen",
+    mergeWithNext: "Mit nächster Seite verbinden",
+    pagesOf: "Seiten {from}–{to} von {total}",
+    previousPages: "Vorherige Seiten",
+    nextPages: "Nächste Seiten",
+    continueReview: "Weiter",
+    suspiciousWords: "Wörter zum Prüfen",
+    noIssues: "Keine seltsamen Wörter gefunden",
+    pageFailed: "Wir konnten diese Seite nicht lesen. Versuche es erneut oder tippe den Text ab.",
+    readPageAgain: "Erneut lesen",
+    voiceStepTitle: "Welche Stimme gefällt dir am besten?",
+    voicePreview: "Hallo! Ich bin dein Erzähler. Wollen wir zusammen lesen?",
+    narratorStyle: "Stil",
+    narratorStyles: { neutral: "Normal", calm: "Ruhig", storyteller: "Geschichtenerzähler", cheerful: "Fröhlich" },
+    simplifyTitle: "Einfacher Text",
+    simplifySubtitle: "Satz für Satz, mit einfacheren Wörtern",
+    simplifying: "Der Text wird einfacher gemacht...",
+    originalText: "Original",
+    simplifiedText: "Einfacher",
+    useSimplifiedIn: "Verwenden in",
+    readingLevels: { easy: "Sehr einfach", grade2: "2. Klasse", grade4: "4. Klasse" },
+    modeNames: { READER: "Lesen", COMIC: "Comic", EXPLAIN: "Tutor", VIDEO: "Video", SIMPLIFY: "Einfacher Text", QUIZ: "Fragen" },
+    simplifiedActive: "Einfache Version: {level}",
+    backToOriginal: "Zurück zum Original",
+    glossary: "Meine Wörter",
+    glossaryEmpty: "Tippe auf ein Wort im Text, um zu erfahren, was es bedeutet.",
+    definingWord: "Das Wort wird gesucht...",
+    noDefinition: "Wir haben dieses Wort nicht gefunden.",
+    example: "Beispiel",
+    sayIt: "Anhören",
+    showPicture: "Bild zeigen",
+    syllablesTitle: "Silben",
+    syllableModes: { off: "Ganze Wörter", colors: ["Sil", "ben", "bogen"], dots: "Sil·ben·bo·gen" },
+    readingRuler: "Leselineal",
+    rulerModes: { off: "Kein Lineal", band: "Streifen", mask: "Fenster" },
+    rulerLines: "Sichtbare Zeilen",
+    rulerColor: "Farbe",
+    rulerOpacity: "Stärke",
+    quizTitle: "Fragespiel",
+    makingQuiz: "Deine Fragen werden vorbereitet...",
+    noQuiz: "Für diesen Text konnten wir keine Fragen erstellen.",
+    questionOf: "Frage {done} von {total}",
+    trueLabel: "Richtig",
+    falseLabel: "Falsch",
+    sequenceHint: "Tippe die Ereignisse der Reihe nach an",
+    sequenceReset: "Neu anfangen",
+    checkAnswer: "Prüfen",
+    rightAnswer: "Sehr gut!",
+    wrongAnswer: "Fast! Schau dir die Antwort an",
+    theTextSays: "Im Text steht",
+    seeResults: "Ergebnisse ansehen",
+    quizResults: "Deine Ergebnisse",
+    quizScore: "{score} von {total} richtig",
+    tryAgain: "Nochmal spielen",
+    adultsOnly: "Nur für Erwachsene",
+    createPin: "Lege eine 4-stellige PIN fest, um die Übersicht zu schützen.",
+    pinNotSet: "Zuerst muss ein Erwachsener unter „Fortschritt und Aktivität“ eine PIN festlegen.",
+    enterPin: "Gib die 4-stellige PIN ein.",
+    wrongPin: "Diese PIN ist nicht richtig.",
+    dashboardTitle: "Fortschritt und Aktivität",
+    allReaders: "Alle Leser",
+    lastDays: "{days} Tage",
+    readingMinutes: "Leseminuten",
+    readingMinutesPerDay: "Leseminuten pro Tag",
+    documentsCompleted: "Fertig gelesene Texte",
+    quizAverage: "Durchschnitt im Quiz",
+    wordsLookedUp: "Nachgeschlagene Wörter",
+    quizHistory: "Fragespiele",
+    questionsAsked: "Fragen an den Tutor",
+    noActivity: "Hier ist noch nichts.",
+    exportComic: "Exportieren",
+    comicLayouts: { grid: "2x2-Raster", strip: "Senkrechter Streifen" },
+    comicNotReady: "Warte, bis alle Bilder gezeichnet sind",
+    comicPanels: "Bilder",
+    comicSameLook: "Überall dieselben Figuren",
+    comicStyle: "Stil",
+    comicStyles: { cartoon: "Zeichentrick", watercolor: "Aquarell", crayon: "Wachsmalstifte", comicbook: "Klassischer Comic", papercut: "Scherenschnitt" },
+    comicCharacters: "Figuren",
+    comicRedraw: "Neu zeichnen",
+    playComic: "Ganzen Comic anhören",
+    stopComic: "Stopp",
+    comicPart: "Teil {n}",
+    chapterOf: "Kapitel {current} von {total}",
+    previousChapter: "Vorheriges Kapitel",
+    nextChapter: "Nächstes Kapitel",
+    seeInText: "Im Text ansehen",
+    tutorEvidence: "Die Stelle, die der Tutor für die Antwort benutzt hat, ist im Text markiert.",
+    backToTutor: "Zurück zum Tutor",
+    hideEvidence: "Markierung entfernen",
+    stopAnswer: "Antwort stoppen",
+    tutorSpeaking: "Der Tutor spricht...",
+    talkToTutor: "Mit dem Tutor sprechen",
+    checkingContent: "Wir prüfen, ob der Text passt...",
+    checkFailedTitle: "Wir konnten den Text nicht prüfen",
+    checkFailedText: "Vor dem Lesen muss der Text geprüft werden. Prüfe die Verbindung und versuche es erneut.",
+    checkAgain: "Erneut prüfen",
+    contentBlockedTitle: "Ups! Das ist nichts für dein Alter",
+    contentBlockedText: "Meine Magie funktioniert nur mit Inhalten, die zu dir passen. Bitte einen Erwachsenen, dir einen anderen Text auszusuchen.",
+    answerBlocked: "Darüber spreche ich lieber nicht. Möchtest du mich etwas anderes zum Text fragen?",
+    contentRedacted: "Wir haben einige Stellen abgedeckt, die nicht für dein Alter sind.",
+    reviewForAdults: "Prüfen (Erwachsene)",
+    flaggedPassages: "Markierte Stellen",
+    showFullText: "Ganzen Text zeigen",
+    readerAges: "Alter der Leser",
+    ageBand: "Alter",
+    moderationCategories: { violence: "Gewalt", sexual: "Sexuell", language: "Sprache", fear: "Angst", self_harm: "Selbstverletzung", drugs: "Drogen", hate: "Hass" },
+    moderationSeverities: { low: "Leicht", medium: "Mittel", high: "Hoch" },
+    ageBands: { "4-6": "4-6 Jahre", "6-10": "6-10 Jahre", "10-14": "10-14 Jahre", teen: "Jugendliche" },
     errorAPI: "Es gibt ein Problem mit dem Zugangsschlüssel.",
     errorOverload: "Das System ist etwas müde. Versuche es in ein paar Sekunden erneut."
   }
@@ -1,14 +1,115 @@
 export type Language = 'es' | 'en' | 'pt' | 'de';
 
-export type AppMode = 'UPLOAD' | 'SELECTION' | 'READER' | 'EXPLAIN' | 'COMIC' | 'VIDEO';
+export type AppMode = 'UPLOAD' | 'REVIEW' | 'SELECTION' | 'LIBRARY' | 'READER' | 'EXPLAIN' | 'COMIC' | 'VIDEO' | 'SIMPLIFY' | 'QUIZ' | 'DASHBOARD';
+
+export type ReadingLevel = 'easy' | 'grade2' | 'grade4';
+
+// Character offsets of one source page inside the extracted text
+export interface DocumentPage {
+  number: number;
+  start: number;
+  end: number;
+}
+
+export interface ReviewSource {
+  url: string;
+  type: 'image' | 'pdf';
+}
+
+// A transcribed page waiting for an adult to check it against its source
+export interface ReviewPage {
+  number: number;
+  text: string;
+  sources: ReviewSource[];
+  // The page could not be transcribed
+  failed?: boolean;
+}
+
+export interface ExtractionDraft {
+  fileName: string;
+  pages: ReviewPage[];
+}
 
 export interface AppState {
   text: string;
+  pages?: DocumentPage[];
   originalFileName?: string;
   isProcessing: boolean;
   error?: string;
   mode: AppMode;
   language: Language;
+  profileId?: string;
+  documentId?: string;
+  reviewDraft?: ExtractionDraft;
+  // Set when the modes should work on a rewritten version instead of `text`
+  readingLevel?: ReadingLevel;
+  simplifiedText?: string;
+  // Passage the reader scrolls to and highlights, set by tutor citations
+  readerFocus?: DocumentPassage;
+  // Safety check of `text` for the reader's age band; missing while it runs
+  moderation?: ModerationVerdict;
+  // An adult chose to show the document without hiding anything
+  moderationOverridden?: boolean;
+  // The check could not run; nothing is shown until a retry succeeds
+  moderationFailed?: boolean;
+}
+
+// Who the content is for; it sets how strict the safety check is and the tone of every prompt
+export type AgeBand = '4-6' | '6-10' | '10-14' | 'teen';
+
+export type ModerationCategory = 'violence' | 'sexual' | 'language' | 'fear' | 'self_harm' | 'drugs' | 'hate';
+
+export type ModerationSeverity = 'low' | 'medium' | 'high';
+
+// What a provider reports; `quote` is copied word for word from the text
+export interface ModerationFinding {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  quote: string;
+}
+
+// A finding located in the checked text, `start`/`end` being offsets into it
+export interface ModerationFlag {
+  category: ModerationCategory;
+  severity: ModerationSeverity;
+  start: number;
+  end: number;
+  text: string;
+}
+
+// `flags` holds only what counts for the age band the text was checked for
+export interface ModerationVerdict {
+  action: 'allow' | 'redact' | 'block';
+  ageBand: AgeBand;
+  flags: ModerationFlag[];
+}
+
+export type NarratorStyle = 'neutral' | 'calm' | 'storyteller' | 'cheerful';
+
+export interface SpeechOptions {
+  voice?: string;
+  style?: NarratorStyle;
+}
+
+// One line of a dramatized reading; an empty speaker is the narrator
+export interface DialogueLine {
+  speaker: string;
+  text: string;
+}
+
+// How words are split into syllables on screen
+export type SyllableMode = 'off' | 'colors' | 'dots';
+
+export type RulerMode = 'off' | 'band' | 'mask';
+
+export type RulerColor = 'yellow' | 'blue' | 'green' | 'pink';
+
+// A band tints the lines being read; a mask dims everything else
+export interface ReadingRulerSettings {
+  mode: RulerMode;
+  lines: number;
+  color: RulerColor;
+  opacity: number;
 }
 
 export interface ReaderSettings {
@@ -16,16 +117,161 @@ export interface ReaderSettings {
   lineHeight: number;
   letterSpacing: number;
   fontFamily: 'standard' | 'dyslexic' | 'rounded';
+  syllables?: SyllableMode;
+  ruler?: ReadingRulerSettings;
   theme: 'light' | 'dark' | 'sepia' | 'contrast';
+  // Narrator voice per language; the provider default is used when missing
+  voices?: Partial<Record<Language, string>>;
+  narratorStyle?: NarratorStyle;
+}
+
+export interface ReaderProfile {
+  id: string;
+  name: string;
+  language: Language;
+  playbackSpeed: number;
+  // Missing on profiles made before age bands existed; treated as 6-10
+  ageBand?: AgeBand;
+  // Missing until the child finishes the reader setup once
+  settings?: ReaderSettings;
+}
+
+export type BubblePosition = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+// A line said by a character; `position` is where the speaker stands in the picture
+export interface ComicDialogue {
+  speaker: string;
+  text: string;
+  position: BubblePosition;
+}
+
+export interface ComicCaption {
+  text: string;
+  position: 'top' | 'bottom';
 }
 
 export interface ComicScene {
   description: string;
   imageUrl?: string;
   keywords: string[];
+  // Drawn over the picture instead of being baked into it
+  captions?: ComicCaption[];
+  dialogue?: ComicDialogue[];
+}
+
+export type ComicArtStyle = 'cartoon' | 'watercolor' | 'crayon' | 'comicbook' | 'papercut';
+
+export interface ComicCharacter {
+  name: string;
+  // Visual description reused in every panel prompt
+  appearance: string;
+}
+
+export interface ComicScript {
+  characters: ComicCharacter[];
+  scenes: ComicScene[];
+}
+
+export interface SceneImageOptions {
+  style: ComicArtStyle;
+  characters: ComicCharacter[];
+  // Data URL of an already drawn panel, so the characters keep their look
+  referenceImage?: string;
+}
+
+export interface AlignedSentence {
+  original: string;
+  simplified: string;
+}
+
+export type QuizItemType = 'multiple_choice' | 'true_false' | 'sequence';
+
+export interface QuizItem {
+  type: QuizItemType;
+  question: string;
+  // Choices for multiple choice; for sequencing, the events in the right order
+  options: string[];
+  // Index of the right choice (true/false: 0 = true, 1 = false); unused for sequencing
+  answer: number;
+  explanation: string;
+  // Passage of the text that supports the answer
+  passage: string;
+}
+
+export interface QuizAttempt {
+  profileId?: string;
+  // One entry per item, in quiz order
+  correct: boolean[];
+  finishedAt: number;
+}
+
+export type ActivityKind = 'mode_opened' | 'reading_time' | 'document_completed' | 'quiz_finished' | 'word_looked_up' | 'question_asked';
+
+// One entry of the local activity log shown on the adult dashboard
+export interface ActivityEvent {
+  id: string;
+  kind: ActivityKind;
+  at: number;
+  profileId?: string;
+  documentId?: string;
+  documentTitle?: string;
+  mode?: AppMode;
+  seconds?: number;
+  score?: number;
+  total?: number;
+  word?: string;
+  question?: string;
+}
+
+// A word the child looked up while reading
+export interface WordDefinition {
+  word: string;
+  definition: string;
+  example: string;
+  imageUrl?: string;
+}
+
+// A stretch of the document; offsets index into the full text
+export interface DocumentPassage {
+  text: string;
+  start: number;
+  end: number;
 }
 
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
-}
\ No newline at end of file
+  // Where in the document a tutor answer comes from
+  citations?: DocumentPassage[];
+}
+// Generated content is language specific, so it is cached per language
+export interface DocumentArtifacts {
+  summary?: string[];
+  suggestedQuestions?: string[];
+  // Comics from before chapters; read as a single chapter
+  comicScenes?: ComicScene[];
+  // One entry per chapter of the text, empty until that chapter is opened
+  comicChapters?: ComicScene[][];
+  comicCharacters?: ComicCharacter[];
+  comicStyle?: ComicArtStyle;
+  chatHistory?: ChatMessage[];
+  simplified?: Partial<Record<ReadingLevel, AlignedSentence[]>>;
+  glossary?: WordDefinition[];
+  quiz?: QuizItem[];
+  quizAttempts?: QuizAttempt[];
+  // Artifacts generated from a simplified rewrite
+  levels?: Partial<Record<ReadingLevel, DocumentArtifacts>>;
+  // All of the above, per audience it was made for (see audienceKey)
+  audiences?: Record<string, DocumentArtifacts>;
+}
+
+export interface LibraryDocument {
+  id: string;
+  title: string;
+  originalFileName?: string;
+  text: string;
+  pages?: DocumentPage[];
+  createdAt: number;
+  updatedAt: number;
+  artifacts: Partial<Record<Language, DocumentArtifacts>>;
+}